@@ -0,0 +1,130 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { jest } from '@jest/globals';
+import { ImageCache } from './imageCache.js';
+import type { CacheConfig, ImageGenerationRequest, ImageGenerationResult } from '../types/index.js';
+
+function createResult(request: ImageGenerationRequest, provider: string = 'procedural'): ImageGenerationResult {
+  const data = Buffer.from(`image for ${request.prompt} by ${provider}`);
+  return {
+    success: true,
+    provider,
+    requestId: `req-${request.prompt}`,
+    images: [{
+      url: `data:image/png;base64,${data.toString('base64')}`,
+      base64: data.toString('base64'),
+      format: 'png',
+      dimensions: { width: 8, height: 8 },
+      size: data.length,
+      metadata: { prompt: request.prompt, style: 'abstract', provider, generatedAt: new Date(), model: 'm' },
+    }],
+  };
+}
+
+describe('ImageCache', () => {
+  let directory: string;
+  let offset: number;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+    offset = 0;
+    const now = Date.now.bind(Date);
+    jest.spyOn(Date, 'now').mockImplementation(() => now() + offset);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(directory);
+  });
+
+  function createCache(overrides: Partial<CacheConfig> = {}): ImageCache {
+    return new ImageCache({ enabled: true, ttl: 60000, maxSize: 10, directory, ...overrides });
+  }
+
+  it('returns a stored result with its image bytes', async () => {
+    const cache = createCache();
+    const request = { prompt: 'a red fox' };
+    const result = createResult(request);
+
+    await cache.set(request, result);
+    const cached = await cache.get(request);
+
+    expect(cached?.cached).toBe(true);
+    expect(cached?.images[0]?.base64).toBe(result.images[0]?.base64);
+    expect(await cache.get({ prompt: 'a blue whale' })).toBeNull();
+  });
+
+  it('treats prompts that differ only in whitespace as the same request', async () => {
+    const cache = createCache();
+    await cache.set({ prompt: 'a red fox' }, createResult({ prompt: 'a red fox' }));
+
+    expect(await cache.get({ prompt: '  a  red\nfox ' })).not.toBeNull();
+  });
+
+  it('keeps results of explicitly requested providers apart', async () => {
+    const cache = createCache();
+    const request = { prompt: 'a red fox' };
+    await cache.set(request, createResult(request, 'chatgpt'), { provider: 'chatgpt', model: 'dall-e-3' });
+
+    expect(await cache.get(request, { provider: 'stability', model: 'core' })).toBeNull();
+    expect(await cache.get(request, { provider: 'chatgpt', model: 'gpt-image-1' })).toBeNull();
+    expect(await cache.get(request)).toBeNull();
+    expect((await cache.get(request, { provider: 'chatgpt', model: 'dall-e-3' }))?.provider).toBe('chatgpt');
+  });
+
+  it('expires entries after the TTL and deletes their files', async () => {
+    const cache = createCache({ ttl: 1000 });
+    const request = { prompt: 'a red fox' };
+    await cache.set(request, createResult(request));
+
+    offset = 1001;
+
+    expect(await cache.get(request)).toBeNull();
+    expect(cache.getStats().entries).toBe(0);
+    expect(await fs.readdir(path.join(directory, 'images'))).toEqual([]);
+  });
+
+  it('evicts the least recently used entry above maxSize', async () => {
+    const cache = createCache({ maxSize: 2 });
+    const [first, second, third] = [{ prompt: 'first' }, { prompt: 'second' }, { prompt: 'third' }];
+
+    await cache.set(first, createResult(first));
+    offset += 10;
+    await cache.set(second, createResult(second));
+    offset += 10;
+    await cache.get(first);
+    offset += 10;
+    await cache.set(third, createResult(third));
+
+    expect(await cache.get(first)).not.toBeNull();
+    expect(await cache.get(second)).toBeNull();
+    expect(await cache.get(third)).not.toBeNull();
+    expect(await fs.readdir(path.join(directory, 'images'))).toHaveLength(2);
+  });
+
+  it('keeps entries across restarts', async () => {
+    const request = { prompt: 'a red fox' };
+    const result = createResult(request);
+    await createCache().set(request, result);
+
+    const restarted = createCache();
+    const cached = await restarted.get(request);
+
+    expect(cached?.images[0]?.base64).toBe(result.images[0]?.base64);
+    expect(cached?.requestId).toBe(result.requestId);
+  });
+
+  it('does not lose entries written concurrently by caches sharing a directory', async () => {
+    const caches = [createCache(), createCache(), createCache()];
+    const requests = caches.map((_, index) => ({ prompt: `prompt ${index}` }));
+
+    await Promise.all(caches.map((cache, index) => cache.set(requests[index]!, createResult(requests[index]!))));
+
+    const reader = createCache();
+    for (const request of requests) {
+      expect(await reader.get(request)).not.toBeNull();
+    }
+    expect(reader.getStats().entries).toBe(3);
+  });
+});
@@ -0,0 +1,509 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { withFileLock, writeFileAtomic, readJsonSafe, formatFileSize } from '../utils/fileSystem.js';
+import type {
+  CacheConfig,
+  GeneratedImage,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+} from '../types/index.js';
+
+/**
+ * Cached image as stored in the index (image bytes live in a separate file)
+ */
+interface CachedImage extends Omit<GeneratedImage, 'base64'> {
+  file: string;
+}
+
+/**
+ * Single cache index entry
+ */
+interface CacheEntry {
+  key: string;
+  provider: string;
+  requestId: string;
+  images: CachedImage[];
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+/**
+ * On-disk cache index
+ */
+interface CacheIndex {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Provider a request was sent to; results of explicitly requested providers are cached apart
+ * from routed ones and from each other
+ */
+export interface CacheScope {
+  provider?: string | undefined;
+  model?: string | undefined;
+}
+
+const INDEX_VERSION = 1;
+
+/**
+ * Disk-backed cache for generated images.
+ *
+ * Image bytes are stored as individual files under `<directory>/images`, while a JSON index
+ * (`<directory>/index.json`) is mirrored in memory. Every index mutation happens under a lock
+ * file and re-reads the index from disk first, so several server processes can share the same
+ * cache directory without losing each other's entries.
+ */
+export class ImageCache {
+  private config: CacheConfig;
+  private directory: string;
+  private imagesDirectory: string;
+  private indexPath: string;
+  private lockPath: string;
+  private index: CacheIndex = { version: INDEX_VERSION, entries: {} };
+  private indexMtime = 0;
+  private loaded: Promise<void> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(config: CacheConfig) {
+    this.config = config;
+    this.directory = path.resolve(process.cwd(), config.directory);
+    this.imagesDirectory = path.join(this.directory, 'images');
+    this.indexPath = path.join(this.directory, 'index.json');
+    this.lockPath = path.join(this.directory, 'index.lock');
+  }
+
+  /**
+   * Get cached result for a generation request
+   */
+  async get(request: ImageGenerationRequest, scope?: CacheScope): Promise<ImageGenerationResult | null> {
+    await this.ensureLoaded();
+    await this.refreshIndex();
+
+    const key = this.createKey(request, scope);
+    const entry = this.index.entries[key];
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    if (this.isExpired(entry)) {
+      this.misses++;
+      await this.removeEntry(key, entry.createdAt);
+      return null;
+    }
+
+    try {
+      const images = await Promise.all(entry.images.map(image => this.restoreImage(image)));
+
+      await this.mutateIndex(index => {
+        const current = index.entries[key];
+        if (current) {
+          current.lastAccessed = Date.now();
+        }
+      });
+
+      this.hits++;
+
+      return {
+        success: true,
+        images,
+        provider: entry.provider,
+        requestId: entry.requestId,
+        cached: true,
+      };
+    } catch (error) {
+      // Image files were evicted by another process or removed by hand
+      console.warn(`Cache entry ${key} is incomplete, discarding:`, error);
+      this.misses++;
+      await this.removeEntry(key, entry.createdAt);
+      return null;
+    }
+  }
+
+  /**
+   * Store a successful generation result
+   */
+  async set(request: ImageGenerationRequest, result: ImageGenerationResult, scope?: CacheScope): Promise<void> {
+    if (!result.success || result.images.length === 0) {
+      return;
+    }
+
+    await this.ensureLoaded();
+
+    const key = this.createKey(request, scope);
+
+    try {
+      const images: CachedImage[] = [];
+      let size = 0;
+
+      for (const [index, image] of result.images.entries()) {
+        const data = await this.getImageData(image);
+        const file = `${key}-${index}.${image.format || 'png'}`;
+
+        await writeFileAtomic(path.join(this.imagesDirectory, file), data);
+
+        images.push({
+          ...omitKey(image, 'base64'),
+          // Data URLs duplicate the file contents, rebuild them on read instead
+          url: image.url.startsWith('data:') ? '' : image.url,
+          file,
+        });
+        size += data.length;
+      }
+
+      const now = Date.now();
+      const entry: CacheEntry = {
+        key,
+        provider: result.provider,
+        requestId: result.requestId,
+        images,
+        size,
+        createdAt: now,
+        lastAccessed: now,
+      };
+
+      await this.mutateIndex(index => {
+        index.entries[key] = entry;
+        return this.evict(index);
+      });
+    } catch (error) {
+      console.warn('Failed to cache image result:', error);
+    }
+  }
+
+  /**
+   * Remove a single request from the cache
+   */
+  async delete(request: ImageGenerationRequest, scope?: CacheScope): Promise<boolean> {
+    await this.ensureLoaded();
+
+    const key = this.createKey(request, scope);
+    let removed = false;
+
+    await this.mutateIndex(index => {
+      const entry = index.entries[key];
+      if (!entry) return [];
+
+      removed = true;
+      delete index.entries[key];
+      return [entry];
+    });
+
+    return removed;
+  }
+
+  /**
+   * Remove all cached entries
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+
+    await this.mutateIndex(index => {
+      const removed = Object.values(index.entries);
+      index.entries = {};
+      return removed;
+    });
+
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Get cache hit rate (0-1) for this process
+   */
+  getHitRate(): number {
+    const total = this.hits + this.misses;
+    return total === 0 ? 0 : this.hits / total;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): {
+    entries: number;
+    hits: number;
+    misses: number;
+    hitRate: number;
+    diskUsage: number;
+    maxSize: number;
+    ttl: number;
+  } {
+    return {
+      entries: Object.keys(this.index.entries).length,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: this.getHitRate(),
+      diskUsage: this.getDiskUsage(),
+      maxSize: this.config.maxSize,
+      ttl: this.config.ttl,
+    };
+  }
+
+  /**
+   * Get total size of cached images in bytes
+   */
+  getDiskUsage(): number {
+    return Object.values(this.index.entries).reduce((total, entry) => total + entry.size, 0);
+  }
+
+  /**
+   * Get disk usage formatted for display
+   */
+  getFormattedDiskUsage(): string {
+    return formatFileSize(this.getDiskUsage());
+  }
+
+  /**
+   * List live cache entries (used to expose cached images as resources)
+   */
+  async getEntries(): Promise<Array<{ key: string; images: Array<Omit<CachedImage, 'file'>>; createdAt: Date }>> {
+    await this.ensureLoaded();
+    await this.refreshIndex();
+
+    return Object.values(this.index.entries)
+      .filter(entry => !this.isExpired(entry))
+      .map(entry => ({
+        key: entry.key,
+        images: entry.images.map(image => omitKey(image, 'file')),
+        createdAt: new Date(entry.createdAt),
+      }));
+  }
+
+  /**
+   * Read the bytes of a cached image
+   */
+  async readImage(key: string, index: number): Promise<{ data: Buffer; format: string } | null> {
+    await this.ensureLoaded();
+    await this.refreshIndex();
+
+    const entry = this.index.entries[key];
+    const image = entry && !this.isExpired(entry) ? entry.images[index] : undefined;
+    if (!image) {
+      return null;
+    }
+
+    try {
+      return {
+        data: await fs.readFile(path.join(this.imagesDirectory, image.file)),
+        format: image.format,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create deterministic cache key for a request
+   */
+  createKey(request: ImageGenerationRequest, scope?: CacheScope): string {
+    const normalized = {
+      prompt: request.prompt.trim().replace(/\s+/g, ' '),
+      style: request.style ?? null,
+      dimensions: request.dimensions ? [request.dimensions.width, request.dimensions.height] : null,
+      quality: request.quality ?? null,
+      count: request.count ?? 1,
+      format: request.format ?? null,
+      transparent: request.transparent ?? false,
+      negativePrompt: request.negativePrompt ?? null,
+      seed: request.seed ?? null,
+      // Left undefined when unset so keys of requests without sampling controls don't change
+      sampler: request.sampler,
+      steps: request.steps,
+      cfgScale: request.cfgScale,
+      checkpoint: request.checkpoint,
+      provider: scope?.provider,
+      model: scope?.model,
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Load the index from disk once and purge expired entries
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.ensureDir(this.imagesDirectory);
+        await this.mutateIndex(index => {
+          const expired = Object.values(index.entries).filter(entry => this.isExpired(entry));
+          for (const entry of expired) {
+            delete index.entries[entry.key];
+          }
+          return [...expired, ...this.evict(index)];
+        });
+      })().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+
+    return this.loaded;
+  }
+
+  /**
+   * Reload the index if another process changed it
+   */
+  private async refreshIndex(): Promise<void> {
+    const stat = await fs.stat(this.indexPath).catch(() => null);
+    if (stat && stat.mtimeMs !== this.indexMtime) {
+      this.index = await this.readIndex();
+      this.indexMtime = stat.mtimeMs;
+    }
+  }
+
+  /**
+   * Remove an entry unless another process replaced it in the meantime
+   */
+  private async removeEntry(key: string, createdAt: number): Promise<void> {
+    await this.mutateIndex(index => {
+      const current = index.entries[key];
+      if (!current || current.createdAt !== createdAt) return [];
+
+      delete index.entries[key];
+      return [current];
+    });
+  }
+
+  /**
+   * Apply a change to the index under the lock and persist it.
+   * The mutator may return entries that were dropped so their files get deleted.
+   */
+  private async mutateIndex(mutator: (index: CacheIndex) => CacheEntry[] | void): Promise<void> {
+    let removed: CacheEntry[] = [];
+
+    await withFileLock(this.lockPath, async () => {
+      const index = await this.readIndex();
+      removed = mutator(index) || [];
+
+      await writeFileAtomic(this.indexPath, JSON.stringify(index));
+
+      const stat = await fs.stat(this.indexPath);
+      this.index = index;
+      this.indexMtime = stat.mtimeMs;
+    });
+
+    // Only delete files that are no longer referenced (another process may have re-added the key)
+    const referenced = new Set(
+      Object.values(this.index.entries).flatMap(entry => entry.images.map(image => image.file))
+    );
+
+    for (const entry of removed) {
+      for (const image of entry.images) {
+        if (!referenced.has(image.file)) {
+          await fs.remove(path.join(this.imagesDirectory, image.file)).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the index file from disk
+   */
+  private async readIndex(): Promise<CacheIndex> {
+    const index = await readJsonSafe<CacheIndex>(this.indexPath);
+
+    if (!index || index.version !== INDEX_VERSION || typeof index.entries !== 'object') {
+      return { version: INDEX_VERSION, entries: {} };
+    }
+
+    return index;
+  }
+
+  /**
+   * Evict least recently used entries above maxSize
+   */
+  private evict(index: CacheIndex): CacheEntry[] {
+    const entries = Object.values(index.entries);
+    const overflow = entries.length - this.config.maxSize;
+
+    if (overflow <= 0) {
+      return [];
+    }
+
+    const evicted = entries
+      .sort((a, b) => a.lastAccessed - b.lastAccessed)
+      .slice(0, overflow);
+
+    for (const entry of evicted) {
+      delete index.entries[entry.key];
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Check if entry is past its TTL
+   */
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.createdAt > this.config.ttl;
+  }
+
+  /**
+   * Rebuild a GeneratedImage from its cached file
+   */
+  private async restoreImage(image: CachedImage): Promise<GeneratedImage> {
+    const data = await fs.readFile(path.join(this.imagesDirectory, image.file));
+    const base64 = data.toString('base64');
+    const rest = omitKey(image, 'file');
+
+    return {
+      ...rest,
+      url: rest.url || `data:image/${rest.format};base64,${base64}`,
+      base64,
+      metadata: {
+        ...rest.metadata,
+        generatedAt: new Date(rest.metadata.generatedAt),
+      },
+    };
+  }
+
+  /**
+   * Get raw image bytes for a generated image
+   */
+  private async getImageData(image: GeneratedImage): Promise<Buffer> {
+    if (image.base64) {
+      return Buffer.from(image.base64, 'base64');
+    }
+
+    const response = await fetch(image.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download image for caching: ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Copy of an object without one of its properties
+ */
+function omitKey<T extends object, K extends keyof T>(value: T, key: K): Omit<T, K> {
+  const copy = { ...value };
+  Reflect.deleteProperty(copy, key);
+  return copy;
+}
+
+let cacheInstance: ImageCache | null = null;
+
+/**
+ * Initialize the global image cache
+ */
+export function initializeCache(config: CacheConfig): ImageCache {
+  cacheInstance = new ImageCache(config);
+  return cacheInstance;
+}
+
+/**
+ * Get the global image cache (null when caching is disabled)
+ */
+export function getCache(): ImageCache | null {
+  return cacheInstance;
+}
+
+export default ImageCache;
@@ -6,6 +6,7 @@ import type {
   ServerConfig, 
   ChatGPTConfig, 
   HuggingFaceConfig, 
+  StabilityConfig,
   CacheConfig 
 } from '../types/index.js';
 
@@ -13,13 +14,36 @@ import type {
 dotenvConfig();
 
 // Validation schemas
+const RecordingConfigSchema = z.object({
+  mode: z.enum(['off', 'record', 'replay']).default('off'), // capture or replay provider HTTP traffic
+  directory: z.string().default('./cassettes'),
+});
+
+const AzureOpenAIConfigSchema = z.object({
+  endpoint: z.string().optional(), // https://<resource>.openai.azure.com, enables Azure mode
+  apiVersion: z.string().default('2024-10-21'),
+  imageDeployment: z.string().optional(), // defaults to model
+  visionDeployment: z.string().optional(), // required for image description
+  auth: z.enum(['api-key', 'entra']).default('api-key'),
+  apiKey: z.string().optional(), // defaults to the provider apiKey
+  tenantId: z.string().optional(), // Entra client credentials
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  adToken: z.string().optional(), // pre-acquired Entra access token, used instead of client credentials
+});
+
 const ChatGPTConfigSchema = z.object({
   enabled: z.boolean().default(false),
   apiKey: z.string().optional(),
   model: z.string().default('dall-e-3'),
   baseUrl: z.string().optional(),
   organization: z.string().optional(),
+  outputCompression: z.number().int().min(0).max(100).optional(), // JPEG/WebP compression for gpt-image models
+  visionModel: z.string().default('gpt-4o'), // describe_image and tag_image; tagging needs structured output support
+  describePrompt: z.string().optional(), // template with {{detail}}, {{focus}} and {{language}}
+  azure: AzureOpenAIConfigSchema.optional(),
   timeout: z.number().default(30000),
+  recording: RecordingConfigSchema.default({}),
 });
 
 const HuggingFaceConfigSchema = z.object({
@@ -27,7 +51,101 @@ const HuggingFaceConfigSchema = z.object({
   apiKey: z.string().optional(),
   model: z.string().default('stabilityai/stable-diffusion-xl-base-1.0'),
   endpoint: z.string().optional(),
+  taggingModel: z.string().default('google/vit-base-patch16-224'), // image classification model for tag_image
+  detectionModel: z.string().default('facebook/detr-resnet-50'), // object detection model for tag_image detection mode
+  zeroShotModel: z.string().default('openai/clip-vit-large-patch14'), // CLIP-style model for tagging with candidate labels
+  hypothesisTemplate: z.string().default('a photo of {}'), // CLIP prompt, {} is replaced with each label
+  labelSets: z.record(z.array(z.string().min(1)).min(2)).default({}), // named candidate labels, e.g. a product taxonomy
   timeout: z.number().default(30000),
+  recording: RecordingConfigSchema.default({}),
+});
+
+const StabilityConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  apiKey: z.string().optional(),
+  model: z.string().default('core'), // core, ultra, or an SD3 model such as sd3.5-large
+  baseUrl: z.string().default('https://api.stability.ai'),
+  stylePreset: z.string().optional(), // overrides the preset derived from the requested style
+  timeout: z.number().default(60000),
+  recording: RecordingConfigSchema.default({}),
+});
+
+const LocalDiffusionConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  backend: z.enum(['webui', 'comfyui']).default('webui'), // Automatic1111 SD WebUI or ComfyUI
+  baseUrl: z.string().default('http://127.0.0.1:7860'),
+  auth: z.string().optional(), // "user:password" for servers started with --api-auth
+  checkpoint: z.string().optional(), // defaults to the server's loaded (WebUI) or first (ComfyUI) checkpoint
+  sampler: z.string().optional(), // defaults to "Euler a" (WebUI) or "euler_ancestral" (ComfyUI)
+  scheduler: z.string().default('normal'), // ComfyUI only
+  steps: z.number().int().min(1).max(150).default(30),
+  cfgScale: z.number().min(1).max(30).default(7),
+  workflow: z.union([z.string(), z.record(z.unknown())]).optional(), // ComfyUI API-format workflow, or a path to one
+  pollInterval: z.number().default(1000), // ComfyUI history polling
+  timeout: z.number().default(300000),
+  recording: RecordingConfigSchema.default({}),
+});
+
+const OllamaConfigSchema = z.object({
+  enabled: z.boolean().default(false), // vision only: describe_image and tag_image
+  baseUrl: z.string().default('http://127.0.0.1:11434'),
+  model: z.string().default('llava'), // any multimodal model, e.g. llava, llava:13b, moondream, llama3.2-vision
+  temperature: z.number().min(0).max(2).default(0.2),
+  maxImageSize: z.number().int().min(64).max(4096).default(1024), // longest edge sent to the model
+  keepAlive: z.string().optional(), // how long Ollama keeps the model loaded, e.g. "10m"
+  timeout: z.number().default(120000),
+  recording: RecordingConfigSchema.default({}),
+});
+
+const ProceduralConfigSchema = z.object({
+  enabled: z.boolean().default(false), // offline renderer, no API key needed
+  timeout: z.number().default(30000),
+});
+
+const ProviderIdSchema = z.string()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]*$/, 'Provider ids may only contain letters, digits, ".", "-" and "_"');
+
+// Instances are listed because they are wanted, so they default to enabled
+const instanceFields = {
+  id: ProviderIdSchema,
+  enabled: z.boolean().default(true),
+};
+
+const ProviderInstanceConfigSchema = z.discriminatedUnion('type', [
+  ChatGPTConfigSchema.extend({ ...instanceFields, type: z.literal('chatgpt') }),
+  HuggingFaceConfigSchema.extend({ ...instanceFields, type: z.literal('huggingface') }),
+  StabilityConfigSchema.extend({ ...instanceFields, type: z.literal('stability') }),
+  LocalDiffusionConfigSchema.extend({ ...instanceFields, type: z.literal('local') }),
+  OllamaConfigSchema.extend({ ...instanceFields, type: z.literal('ollama') }),
+  ProceduralConfigSchema.extend({ ...instanceFields, type: z.literal('procedural') }),
+]);
+
+/**
+ * Provider types implemented by the server itself, plugins may not reuse them
+ */
+export const BUILT_IN_PROVIDER_TYPES = ['chatgpt', 'huggingface', 'stability', 'local', 'ollama', 'procedural'] as const;
+
+// Plugin settings are validated by the plugin's own schema once it is loaded
+const PluginInstanceConfigSchema = z.object({
+  ...instanceFields,
+  type: z.string(),
+}).passthrough();
+
+/**
+ * Built-in instances are validated here, others are kept for their plugin
+ */
+const AnyProviderInstanceConfigSchema = z.object({ type: z.string() }).passthrough().transform((entry, ctx) => {
+  const schema = (BUILT_IN_PROVIDER_TYPES as readonly string[]).includes(entry.type)
+    ? ProviderInstanceConfigSchema
+    : PluginInstanceConfigSchema;
+
+  const result = schema.safeParse(entry);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue(issue));
+    return z.NEVER;
+  }
+
+  return result.data;
 });
 
 const CacheConfigSchema = z.object({
@@ -37,10 +155,98 @@ const CacheConfigSchema = z.object({
   directory: z.string().default('./cache'),
 });
 
+const RoutingFeatureSchema = z.enum(['generation', 'description', 'tagging', 'detection', 'zero-shot', 'logo']);
+
+const RoutingPolicySchema = z.enum(['priority', 'lowest-cost', 'fastest', 'round-robin', 'weighted-random']);
+
+/**
+ * A single value or a list, normalized to a list
+ */
+function listOf<T extends z.ZodTypeAny>(item: T) {
+  return z.union([item, z.array(item).min(1)]).transform(value => (Array.isArray(value) ? value : [value]) as Array<z.output<T>>);
+}
+
+const RoutingRuleSchema = z.object({
+  name: z.string().optional(),
+  features: listOf(RoutingFeatureSchema).optional(), // all features when omitted
+  when: z.object({
+    transparent: z.boolean().optional(),
+    style: listOf(z.string().min(1)).optional(),
+    format: listOf(z.string().min(1)).optional(),
+    quality: z.enum(['standard', 'hd']).optional(),
+    minCount: z.number().int().min(1).optional(), // matches count >= minCount, only providers that can return count images
+  }).default({}),
+  provider: listOf(z.string().min(1)).optional(), // instance ids or provider types
+  policy: RoutingPolicySchema.optional(), // defaults to the feature policy
+}).refine(rule => rule.provider || rule.policy || rule.when.minCount, {
+  message: 'A routing rule needs a provider, a policy or a minCount',
+});
+
+const RoutingConfigSchema = z.object({
+  policy: RoutingPolicySchema.default('priority'),
+  features: z.record(RoutingFeatureSchema, RoutingPolicySchema).default({}), // per-feature policy overrides
+  priorities: z.record(RoutingFeatureSchema, z.array(z.string().min(1))).default({}), // ids or types, replaces the built-in order
+  costs: z.record(z.number().min(0)).default({}), // estimated USD per request by id or type
+  weights: z.record(z.number().min(0)).default({}), // weighted-random weights by id or type, default 1
+  rules: z.array(RoutingRuleSchema).default([]), // first matching rule wins
+});
+
+const HealthConfigSchema = z.object({
+  interval: z.number().int().min(0).default(60000), // background probe interval, 0 = probe on demand only
+  ttl: z.number().int().min(0).default(30000), // how long a probe or request outcome is trusted
+  probeTimeout: z.number().int().min(100).default(10000),
+  failureThreshold: z.number().int().min(1).default(3), // consecutive request failures before marking a provider down
+});
+
+const CircuitBreakerConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  failureThreshold: z.number().int().min(1).default(5),
+  cooldown: z.number().int().min(0).default(30000), // ms before an open breaker allows a trial request
+  halfOpenRequests: z.number().int().min(1).default(1),
+  overrides: z.record(z.object({ // by instance id or provider type
+    failureThreshold: z.number().int().min(1).optional(),
+    cooldown: z.number().int().min(0).optional(),
+  })).default({}),
+});
+
+const FallbackConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  maxAttempts: z.number().int().min(1).optional(), // all capable providers when omitted
+  noFallbackCodes: z.array(z.string().min(1)).default(['INVALID_REQUEST', 'CONTENT_POLICY_VIOLATION']), // stop at these errors
+  chains: z.record(RoutingFeatureSchema, z.array(z.string().min(1))).default({}), // ids or types, replaces the routing order
+});
+
+const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Prompt names may only contain lowercase letters, digits, "-" and "_"'),
+  description: z.string().default(''),
+  tool: z.enum(['generate_image', 'generate_logo']).default('generate_image'),
+  prompt: z.string().min(1), // {argument} placeholders, comma-separated fragments with missing arguments are dropped
+  arguments: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+    description: z.string().optional(),
+    required: z.boolean().default(false),
+    default: z.string().optional(),
+  })).default([]),
+  params: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}), // extra tool arguments, strings may use placeholders
+});
+
 const ServerConfigSchema = z.object({
   providers: z.object({
     chatgpt: ChatGPTConfigSchema,
     huggingface: HuggingFaceConfigSchema,
+    stability: StabilityConfigSchema.default({}),
+    local: LocalDiffusionConfigSchema.default({}),
+    ollama: OllamaConfigSchema.default({}),
+    procedural: ProceduralConfigSchema.default({}),
+    instances: z.array(AnyProviderInstanceConfigSchema).default([]).superRefine((instances, ctx) => {
+      const seen = new Set<string>();
+      instances.forEach((instance, index) => {
+        if (seen.has(instance.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate provider id "${instance.id}"` });
+        }
+        seen.add(instance.id);
+      });
+    }),
   }),
   cache: CacheConfigSchema,
   server: z.object({
@@ -52,7 +258,16 @@ const ServerConfigSchema = z.object({
     directory: z.string().default('./generated-images'),
     format: z.string().default('png'),
     naming: z.string().default('{{timestamp}}-{{hash}}'),
+    embedMetadata: z.boolean().default(true), // write provenance into PNG/JPEG/WebP files
+    sidecar: z.boolean().default(false), // write <file>.json next to each image
+    previewSize: z.number().int().min(0).default(512), // max edge of images returned to clients, 0 = full size
   }),
+  routing: RoutingConfigSchema.default({}),
+  health: HealthConfigSchema.default({}),
+  circuitBreaker: CircuitBreakerConfigSchema.default({}),
+  fallback: FallbackConfigSchema.default({}),
+  prompts: z.array(PromptTemplateSchema).default([]), // user-defined prompt templates
+  plugins: z.array(z.string().min(1)).default([]), // provider plugin packages or paths
 });
 
 class ConfigManager {
@@ -119,14 +334,83 @@ class ConfigManager {
           model: process.env.CHATGPT_MODEL || 'dall-e-3',
           baseUrl: process.env.OPENAI_BASE_URL,
           organization: process.env.OPENAI_ORGANIZATION,
+          visionModel: process.env.CHATGPT_VISION_MODEL,
+          describePrompt: process.env.CHATGPT_DESCRIBE_PROMPT,
+          outputCompression: process.env.CHATGPT_OUTPUT_COMPRESSION ? parseInt(process.env.CHATGPT_OUTPUT_COMPRESSION, 10) : undefined,
+          azure: {
+            endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+            apiVersion: process.env.AZURE_OPENAI_API_VERSION,
+            imageDeployment: process.env.AZURE_OPENAI_IMAGE_DEPLOYMENT,
+            visionDeployment: process.env.AZURE_OPENAI_VISION_DEPLOYMENT,
+            auth: process.env.AZURE_OPENAI_AUTH,
+            apiKey: process.env.AZURE_OPENAI_API_KEY,
+            tenantId: process.env.AZURE_TENANT_ID,
+            clientId: process.env.AZURE_CLIENT_ID,
+            clientSecret: process.env.AZURE_CLIENT_SECRET,
+            adToken: process.env.AZURE_OPENAI_AD_TOKEN,
+          },
           timeout: process.env.CHATGPT_TIMEOUT ? parseInt(process.env.CHATGPT_TIMEOUT, 10) : undefined,
+          recording: {
+            mode: process.env.CHATGPT_RECORDING,
+            directory: process.env.RECORDING_DIRECTORY,
+          },
         },
         huggingface: {
           enabled: process.env.HUGGINGFACE_ENABLED === 'true',
           apiKey: process.env.HUGGINGFACE_API_KEY,
           model: process.env.HUGGINGFACE_MODEL || 'stabilityai/stable-diffusion-xl-base-1.0',
           endpoint: process.env.HUGGINGFACE_ENDPOINT,
+          taggingModel: process.env.HUGGINGFACE_TAGGING_MODEL,
+          detectionModel: process.env.HUGGINGFACE_DETECTION_MODEL,
+          zeroShotModel: process.env.HUGGINGFACE_ZERO_SHOT_MODEL,
+          hypothesisTemplate: process.env.HUGGINGFACE_HYPOTHESIS_TEMPLATE,
           timeout: process.env.HUGGINGFACE_TIMEOUT ? parseInt(process.env.HUGGINGFACE_TIMEOUT, 10) : undefined,
+          recording: {
+            mode: process.env.HUGGINGFACE_RECORDING,
+            directory: process.env.RECORDING_DIRECTORY,
+          },
+        },
+        stability: {
+          enabled: process.env.STABILITY_ENABLED ? process.env.STABILITY_ENABLED === 'true' : undefined,
+          apiKey: process.env.STABILITY_API_KEY,
+          model: process.env.STABILITY_MODEL,
+          baseUrl: process.env.STABILITY_BASE_URL,
+          stylePreset: process.env.STABILITY_STYLE_PRESET,
+          timeout: process.env.STABILITY_TIMEOUT ? parseInt(process.env.STABILITY_TIMEOUT, 10) : undefined,
+          recording: {
+            mode: process.env.STABILITY_RECORDING,
+            directory: process.env.RECORDING_DIRECTORY,
+          },
+        },
+        local: {
+          enabled: process.env.LOCAL_SD_ENABLED ? process.env.LOCAL_SD_ENABLED === 'true' : undefined,
+          backend: process.env.LOCAL_SD_BACKEND,
+          baseUrl: process.env.LOCAL_SD_BASE_URL,
+          auth: process.env.LOCAL_SD_AUTH,
+          checkpoint: process.env.LOCAL_SD_CHECKPOINT,
+          sampler: process.env.LOCAL_SD_SAMPLER,
+          steps: process.env.LOCAL_SD_STEPS ? parseInt(process.env.LOCAL_SD_STEPS, 10) : undefined,
+          cfgScale: process.env.LOCAL_SD_CFG_SCALE ? parseFloat(process.env.LOCAL_SD_CFG_SCALE) : undefined,
+          workflow: process.env.LOCAL_SD_WORKFLOW,
+          timeout: process.env.LOCAL_SD_TIMEOUT ? parseInt(process.env.LOCAL_SD_TIMEOUT, 10) : undefined,
+          recording: {
+            mode: process.env.LOCAL_SD_RECORDING,
+            directory: process.env.RECORDING_DIRECTORY,
+          },
+        },
+        ollama: {
+          enabled: process.env.OLLAMA_ENABLED ? process.env.OLLAMA_ENABLED === 'true' : undefined,
+          baseUrl: process.env.OLLAMA_BASE_URL,
+          model: process.env.OLLAMA_VISION_MODEL,
+          keepAlive: process.env.OLLAMA_KEEP_ALIVE,
+          timeout: process.env.OLLAMA_TIMEOUT ? parseInt(process.env.OLLAMA_TIMEOUT, 10) : undefined,
+          recording: {
+            mode: process.env.OLLAMA_RECORDING,
+            directory: process.env.RECORDING_DIRECTORY,
+          },
+        },
+        procedural: {
+          enabled: process.env.PROCEDURAL_ENABLED ? process.env.PROCEDURAL_ENABLED === 'true' : undefined,
         },
       },
       cache: {
@@ -140,10 +424,35 @@ class ConfigManager {
         version: process.env.SERVER_VERSION || '1.0.0',
         port: process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : undefined,
       },
+      plugins: process.env.PROVIDER_PLUGINS
+        ? process.env.PROVIDER_PLUGINS.split(',').map(plugin => plugin.trim()).filter(Boolean)
+        : undefined,
       output: {
         directory: process.env.OUTPUT_DIRECTORY || './generated-images',
         format: process.env.OUTPUT_FORMAT || 'png',
         naming: process.env.OUTPUT_NAMING || '{{timestamp}}-{{hash}}',
+        embedMetadata: process.env.OUTPUT_EMBED_METADATA ? process.env.OUTPUT_EMBED_METADATA !== 'false' : undefined,
+        sidecar: process.env.OUTPUT_SIDECAR ? process.env.OUTPUT_SIDECAR === 'true' : undefined,
+        previewSize: process.env.OUTPUT_PREVIEW_SIZE ? parseInt(process.env.OUTPUT_PREVIEW_SIZE, 10) : undefined,
+      },
+      routing: {
+        policy: process.env.ROUTING_POLICY,
+      },
+      health: {
+        interval: process.env.HEALTH_CHECK_INTERVAL ? parseInt(process.env.HEALTH_CHECK_INTERVAL, 10) : undefined,
+        ttl: process.env.HEALTH_CHECK_TTL ? parseInt(process.env.HEALTH_CHECK_TTL, 10) : undefined,
+      },
+      circuitBreaker: {
+        enabled: process.env.CIRCUIT_BREAKER_ENABLED ? process.env.CIRCUIT_BREAKER_ENABLED !== 'false' : undefined,
+        failureThreshold: process.env.CIRCUIT_BREAKER_THRESHOLD ? parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD, 10) : undefined,
+        cooldown: process.env.CIRCUIT_BREAKER_COOLDOWN ? parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN, 10) : undefined,
+      },
+      fallback: {
+        enabled: process.env.FALLBACK_ENABLED ? process.env.FALLBACK_ENABLED !== 'false' : undefined,
+        maxAttempts: process.env.FALLBACK_MAX_ATTEMPTS ? parseInt(process.env.FALLBACK_MAX_ATTEMPTS, 10) : undefined,
+        noFallbackCodes: process.env.FALLBACK_NO_FALLBACK_CODES !== undefined
+          ? process.env.FALLBACK_NO_FALLBACK_CODES.split(',').map(code => code.trim()).filter(Boolean)
+          : undefined,
       },
     };
 
@@ -220,11 +529,11 @@ class ConfigManager {
   /**
    * Check if a provider is enabled and configured
    */
-  isProviderEnabled(provider: 'chatgpt' | 'huggingface'): boolean {
+  isProviderEnabled(provider: 'chatgpt' | 'huggingface' | 'stability'): boolean {
     if (!this.config) return false;
     
     const providerConfig = this.config.providers[provider];
-    return providerConfig.enabled && !!providerConfig.apiKey;
+    return providerConfig.enabled && (!!providerConfig.apiKey || providerConfig.recording.mode === 'replay');
   }
 
   /**
@@ -242,6 +551,28 @@ class ConfigManager {
     if (this.isProviderEnabled('huggingface')) {
       enabled.push('huggingface');
     }
+
+    if (this.isProviderEnabled('stability')) {
+      enabled.push('stability');
+    }
+
+    if (this.config.providers.local.enabled) {
+      enabled.push('local');
+    }
+
+    if (this.config.providers.ollama.enabled) {
+      enabled.push('ollama');
+    }
+
+    if (this.config.providers.procedural.enabled) {
+      enabled.push('procedural');
+    }
+
+    for (const instance of this.config.providers.instances) {
+      if (instance.enabled && !enabled.includes(instance.id)) {
+        enabled.push(instance.id);
+      }
+    }
     
     return enabled;
   }
@@ -250,8 +581,8 @@ class ConfigManager {
    * Update provider configuration
    */
   async updateProviderConfig(
-    provider: 'chatgpt' | 'huggingface',
-    config: Partial<ChatGPTConfig | HuggingFaceConfig>
+    provider: 'chatgpt' | 'huggingface' | 'stability',
+    config: Partial<ChatGPTConfig | HuggingFaceConfig | StabilityConfig>
   ): Promise<void> {
     if (!this.config) {
       await this.loadConfig();
@@ -279,6 +610,7 @@ class ConfigManager {
           enabled: false,
           apiKey: 'your-openai-api-key',
           model: 'dall-e-3',
+          visionModel: 'gpt-4o',
           timeout: 30000,
         },
         huggingface: {
@@ -287,6 +619,60 @@ class ConfigManager {
           model: 'stabilityai/stable-diffusion-xl-base-1.0',
           timeout: 30000,
         },
+        stability: {
+          enabled: false,
+          apiKey: 'your-stability-api-key',
+          model: 'core',
+          baseUrl: 'https://api.stability.ai',
+          timeout: 60000,
+        },
+        local: {
+          enabled: false,
+          backend: 'webui',
+          baseUrl: 'http://127.0.0.1:7860',
+          sampler: 'Euler a',
+          steps: 30,
+          cfgScale: 7,
+        },
+        ollama: {
+          enabled: false,
+          baseUrl: 'http://127.0.0.1:11434',
+          model: 'llava',
+        },
+        procedural: {
+          enabled: false,
+        },
+        instances: [
+          {
+            id: 'hf-logos',
+            type: 'huggingface',
+            enabled: false,
+            apiKey: 'your-huggingface-api-key',
+            model: 'artificialguybr/LogoRedmond-LogoLoraForSDXL-V2',
+          },
+          {
+            id: 'openai-gateway',
+            type: 'chatgpt',
+            enabled: false,
+            apiKey: 'your-gateway-api-key',
+            baseUrl: 'https://llm-gateway.example.com/v1',
+            model: 'dall-e-3',
+          },
+          {
+            id: 'azure-openai',
+            type: 'chatgpt',
+            enabled: false,
+            model: 'dall-e-3',
+            azure: {
+              endpoint: 'https://your-resource.openai.azure.com',
+              apiVersion: '2024-10-21',
+              imageDeployment: 'dalle3',
+              visionDeployment: 'gpt-4o',
+              auth: 'api-key',
+              apiKey: 'your-azure-openai-key',
+            },
+          },
+        ],
       },
       cache: {
         enabled: true,
@@ -302,7 +688,52 @@ class ConfigManager {
         directory: './generated-images',
         format: 'png',
         naming: '{{timestamp}}-{{hash}}',
+        embedMetadata: true,
+        sidecar: false,
+        previewSize: 512,
+      },
+      routing: {
+        policy: 'priority',
+        features: { tagging: 'lowest-cost' },
+        rules: [
+          { name: 'transparent-logos', when: { transparent: true }, provider: 'chatgpt' },
+          { name: 'batches', when: { minCount: 2 }, policy: 'lowest-cost' },
+        ],
+      },
+      health: {
+        interval: 60000,
+        ttl: 30000,
+        probeTimeout: 10000,
+        failureThreshold: 3,
+      },
+      circuitBreaker: {
+        enabled: true,
+        failureThreshold: 5,
+        cooldown: 30000,
+        halfOpenRequests: 1,
+        overrides: {
+          huggingface: { failureThreshold: 3, cooldown: 60000 },
+        },
       },
+      fallback: {
+        enabled: true,
+        noFallbackCodes: ['INVALID_REQUEST', 'CONTENT_POLICY_VIOLATION'],
+        chains: {},
+      },
+      prompts: [
+        {
+          name: 'team-avatar',
+          description: 'Illustrated team member avatar',
+          tool: 'generate_image',
+          prompt: 'portrait of {subject}, friendly expression, {brandColor} background',
+          arguments: [
+            { name: 'subject', description: 'Who to draw', required: true },
+            { name: 'brandColor', description: 'Background color' },
+          ],
+          params: { style: 'cartoon', width: 512, height: 512 },
+        },
+      ],
+      plugins: [],
     };
     
     await fs.writeJson(examplePath, exampleConfig, { spaces: 2 });
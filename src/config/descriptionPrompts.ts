@@ -0,0 +1,56 @@
+import type { ImageDescriptionOptions, DescriptionDetailLevel, DescriptionFocus } from '../types/index.js';
+
+/**
+ * Default describe_image prompt; `{{detail}}`, `{{focus}}` and `{{language}}` are filled in per request
+ */
+export const DEFAULT_DESCRIBE_PROMPT =
+  'Describe this image. {{detail}} {{focus}} Write the description in {{language}}, as plain prose without a preamble.';
+
+/**
+ * Instructions for each detail level
+ */
+export const DETAIL_INSTRUCTIONS: Record<DescriptionDetailLevel, string> = {
+  brief: 'Answer in one or two sentences covering only the main subject and setting.',
+  detailed: 'Cover the main subjects, the setting, colors, lighting and composition in one or two paragraphs.',
+  comprehensive: 'Give an extensive analysis: subjects, setting, colors and lighting, composition, style and technique, mood, and notable details.',
+};
+
+/**
+ * Instructions for each focus area; `general` adds none
+ */
+export const FOCUS_INSTRUCTIONS: Record<DescriptionFocus, string> = {
+  general: '',
+  objects: 'Concentrate on the objects in the image: what they are, where they are and what they look like.',
+  people: 'Concentrate on the people: their appearance, clothing, expressions and what they are doing.',
+  scene: 'Concentrate on the setting: the location, environment and background.',
+  colors: 'Concentrate on the color palette, lighting and overall visual tone.',
+  composition: 'Concentrate on the composition: framing, perspective, arrangement and balance.',
+  style: 'Concentrate on the artistic style, technique, medium and aesthetic qualities.',
+};
+
+/**
+ * Completion token budget per detail level
+ */
+export const DETAIL_MAX_TOKENS: Record<DescriptionDetailLevel, number> = {
+  brief: 150,
+  detailed: 500,
+  comprehensive: 1200,
+};
+
+/**
+ * Build a describe prompt from a template and the describe_image options
+ */
+export function buildDescribePrompt(options: ImageDescriptionOptions = {}, template: string = DEFAULT_DESCRIBE_PROMPT): string {
+  const values: Record<string, string> = {
+    detail: DETAIL_INSTRUCTIONS[options.detailLevel || 'detailed'],
+    detailLevel: options.detailLevel || 'detailed',
+    focus: FOCUS_INSTRUCTIONS[options.focus || 'general'],
+    focusArea: options.focus || 'general',
+    language: options.language || 'English',
+  };
+
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,250 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { withFileLock, writeFileAtomic, readJsonSafe } from '../utils/fileSystem.js';
+import { getImageStyle, isValidStyle } from '../config/imageStyles.js';
+import type {
+  OutputConfig,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageSearchQuery,
+  LibraryEntry,
+  LogoGenerationRequest,
+} from '../types/index.js';
+
+/**
+ * On-disk library file
+ */
+interface LibraryFile {
+  version: number;
+  entries: LibraryEntry[];
+}
+
+/**
+ * Extra information recorded with a generation result
+ */
+export interface LibraryRecordOptions {
+  tags?: string[] | undefined;
+  logoType?: LogoGenerationRequest['logoType'] | undefined;
+}
+
+/**
+ * Listener notified after images are recorded
+ */
+export type LibraryRecordListener = (entries: LibraryEntry[]) => void;
+
+const LIBRARY_VERSION = 1;
+
+/**
+ * Persistent, searchable index of every generated image.
+ * Stored as `library.json` in the output directory and updated under a lock file,
+ * so several server processes can record into the same library.
+ */
+export class ImageLibrary {
+  private libraryPath: string;
+  private lockPath: string;
+  private entries: LibraryEntry[] = [];
+  private libraryMtime = 0;
+  private listeners: LibraryRecordListener[] = [];
+
+  constructor(config: OutputConfig) {
+    const directory = path.resolve(process.cwd(), config.directory);
+    this.libraryPath = path.join(directory, 'library.json');
+    this.lockPath = path.join(directory, 'library.lock');
+  }
+
+  /**
+   * Record all images of a generation result (existing entries are updated)
+   */
+  async record(
+    result: ImageGenerationResult,
+    request: ImageGenerationRequest,
+    options: LibraryRecordOptions = {}
+  ): Promise<LibraryEntry[]> {
+    if (!result.success || result.images.length === 0) {
+      return [];
+    }
+
+    const recorded = result.images.map((image, index): LibraryEntry => ({
+      id: `${result.requestId}/${index}`,
+      requestId: result.requestId,
+      index,
+      prompt: request.prompt,
+      revisedPrompt: image.metadata.revisedPrompt,
+      style: image.metadata.style,
+      provider: image.metadata.provider || result.provider,
+      model: image.metadata.model,
+      seed: image.metadata.seed ?? request.seed,
+      format: image.format,
+      dimensions: image.dimensions,
+      size: image.size,
+      filePath: image.localPath,
+      tags: this.buildTags(image.metadata.style, options),
+      logoType: options.logoType,
+      createdAt: new Date(image.metadata.generatedAt).toISOString(),
+    }));
+
+    try {
+      await withFileLock(this.lockPath, async () => {
+        const library = await this.readLibrary();
+        const ids = new Set(recorded.map(entry => entry.id));
+
+        library.entries = [
+          ...library.entries.filter(entry => !ids.has(entry.id)),
+          ...recorded,
+        ];
+
+        await writeFileAtomic(this.libraryPath, JSON.stringify(library));
+        await this.updateMemory(library);
+      });
+    } catch (error) {
+      console.warn('Failed to record images in library:', error);
+      return [];
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(recorded);
+      } catch (error) {
+        console.warn('Library listener failed:', error);
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Register a listener for newly recorded images
+   */
+  onRecord(listener: LibraryRecordListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Search the library, newest entries first
+   */
+  async search(query: ImageSearchQuery = {}): Promise<{ total: number; entries: LibraryEntry[] }> {
+    await this.refresh();
+
+    const terms = (query.text || '')
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(term => term.length > 0);
+
+    const matches = this.entries.filter(entry => {
+      if (query.style && entry.style !== query.style) return false;
+      if (query.provider && entry.provider !== query.provider) return false;
+      if (query.logoType && entry.logoType !== query.logoType) return false;
+
+      const createdAt = new Date(entry.createdAt);
+      if (query.from && createdAt < query.from) return false;
+      if (query.to && createdAt > query.to) return false;
+
+      if (terms.length > 0) {
+        const haystack = [entry.prompt, entry.revisedPrompt || '', ...entry.tags].join(' ').toLowerCase();
+        return terms.every(term => haystack.includes(term));
+      }
+
+      return true;
+    });
+
+    matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const offset = query.offset || 0;
+    const limit = query.limit || 20;
+
+    return {
+      total: matches.length,
+      entries: matches.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Get a single entry
+   */
+  async getEntry(requestId: string, index: number): Promise<LibraryEntry | null> {
+    await this.refresh();
+    return this.entries.find(entry => entry.requestId === requestId && entry.index === index) || null;
+  }
+
+  /**
+   * Get all entries
+   */
+  async getEntries(): Promise<LibraryEntry[]> {
+    await this.refresh();
+    return [...this.entries];
+  }
+
+  /**
+   * Build tag list from style and caller-supplied tags
+   */
+  private buildTags(style: string, options: LibraryRecordOptions): string[] {
+    const tags = new Set<string>(options.tags || []);
+
+    if (isValidStyle(style)) {
+      tags.add(style);
+      for (const tag of getImageStyle(style)?.tags || []) {
+        tags.add(tag);
+      }
+    }
+
+    if (options.logoType) {
+      tags.add('logo');
+      tags.add(options.logoType);
+    }
+
+    return [...tags].filter(tag => tag.length > 0);
+  }
+
+  /**
+   * Reload the library if it changed on disk
+   */
+  private async refresh(): Promise<void> {
+    const stat = await fs.stat(this.libraryPath).catch(() => null);
+    if (stat && stat.mtimeMs !== this.libraryMtime) {
+      const library = await this.readLibrary();
+      this.entries = library.entries;
+      this.libraryMtime = stat.mtimeMs;
+    }
+  }
+
+  /**
+   * Mirror a freshly written library in memory
+   */
+  private async updateMemory(library: LibraryFile): Promise<void> {
+    const stat = await fs.stat(this.libraryPath);
+    this.entries = library.entries;
+    this.libraryMtime = stat.mtimeMs;
+  }
+
+  /**
+   * Read the library file from disk
+   */
+  private async readLibrary(): Promise<LibraryFile> {
+    const library = await readJsonSafe<LibraryFile>(this.libraryPath);
+
+    if (!library || library.version !== LIBRARY_VERSION || !Array.isArray(library.entries)) {
+      return { version: LIBRARY_VERSION, entries: [] };
+    }
+
+    return library;
+  }
+}
+
+let libraryInstance: ImageLibrary | null = null;
+
+/**
+ * Initialize the global image library
+ */
+export function initializeLibrary(config: OutputConfig): ImageLibrary {
+  libraryInstance = new ImageLibrary(config);
+  return libraryInstance;
+}
+
+/**
+ * Get the global image library (null before initialization)
+ */
+export function getLibrary(): ImageLibrary | null {
+  return libraryInstance;
+}
+
+export default ImageLibrary;
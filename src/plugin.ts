@@ -0,0 +1,21 @@
+/**
+ * Public API for provider plugins: `import { BaseImageProvider, defineProviderPlugin } from 'image-for-me-dear-ai/dist/plugin.js'`
+ */
+export { BaseImageProvider } from './providers/baseProvider.js';
+export { createProviderFetch } from './providers/httpCassette.js';
+export { defineProviderPlugin } from './providers/providerPlugins.js';
+export type { ProviderPlugin, ProviderPluginCapabilities } from './providers/providerPlugins.js';
+export type {
+  ImageProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageDescriptionResult,
+  ImageTaggingResult,
+  ImageTag,
+  BoundingBox,
+  GeneratedImage,
+  ImageMetadata,
+  ProviderError,
+  ProviderFeature,
+  RecordingConfig,
+} from './types/index.js';
@@ -0,0 +1,193 @@
+import configManager from '../config/config.js';
+import { getRecommendedDimensions, isValidStyle } from '../config/imageStyles.js';
+import type { PromptTemplate } from '../types/index.js';
+
+/**
+ * MCP prompt description
+ */
+export interface ImagePrompt {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description?: string; required: boolean }>;
+}
+
+/**
+ * Rendered MCP prompt
+ */
+export interface RenderedImagePrompt {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+/**
+ * Built-in prompt templates. User templates from config.json with the same name replace these.
+ */
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'blog-header',
+    description: 'Wide header illustration for a blog post',
+    tool: 'generate_image',
+    prompt: '{subject}, wide blog header illustration, {brandColor} accent color, clean composition with empty space for a title, no text',
+    arguments: [
+      { name: 'subject', description: 'What the article is about', required: true },
+      { name: 'brandColor', description: 'Accent color (e.g. "#2563eb" or "teal")', required: false },
+      { name: 'style', description: 'Image style', required: false, default: 'digital-art' },
+    ],
+    params: { style: '{style}', width: 1792, height: 1024 },
+  },
+  {
+    name: 'product-shot',
+    description: 'Studio product photo on a plain white background',
+    tool: 'generate_image',
+    prompt: '{subject}, product photography, centered on a seamless pure white background, soft studio lighting, subtle shadow, {brandColor} accents',
+    arguments: [
+      { name: 'subject', description: 'The product to photograph', required: true },
+      { name: 'brandColor', description: 'Accent color of props or highlights', required: false },
+    ],
+    params: { style: 'photographic', format: 'jpeg' },
+  },
+  {
+    name: 'app-icon',
+    description: 'Square app icon with a transparent background',
+    tool: 'generate_logo',
+    prompt: '{subject}, app icon, bold simple shape, rounded square silhouette, readable at small sizes',
+    arguments: [
+      { name: 'subject', description: 'What the icon should depict', required: true },
+      { name: 'brandColor', description: 'Main icon color', required: false },
+    ],
+    params: { logoType: 'icon', style: 'minimalist', primaryColor: '{brandColor}', width: 1024, height: 1024 },
+  },
+  {
+    name: 'og-card',
+    description: 'Open Graph social sharing card (1200x630)',
+    tool: 'generate_image',
+    prompt: '{subject}, social media preview card background, {brandColor} color scheme, bold composition, empty space on the left for a headline, no text',
+    arguments: [
+      { name: 'subject', description: 'What the shared page is about', required: true },
+      { name: 'brandColor', description: 'Main brand color', required: false },
+      { name: 'style', description: 'Image style', required: false, default: 'minimalist' },
+    ],
+    params: { style: '{style}', width: 1200, height: 630 },
+  },
+];
+
+const PLACEHOLDER = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Get all prompt templates, user templates first
+ */
+export function getPromptTemplates(): PromptTemplate[] {
+  const userTemplates = configManager.getConfig()?.prompts || [];
+  const userNames = new Set(userTemplates.map(template => template.name));
+
+  return [
+    ...userTemplates,
+    ...BUILT_IN_PROMPTS.filter(template => !userNames.has(template.name)),
+  ];
+}
+
+/**
+ * List prompt templates as MCP prompts
+ */
+export function listImagePrompts(): ImagePrompt[] {
+  return getPromptTemplates().map(template => ({
+    name: template.name,
+    description: template.description,
+    arguments: template.arguments.map(argument => ({
+      name: argument.name,
+      ...(argument.description ? { description: argument.description } : {}),
+      required: argument.required,
+    })),
+  }));
+}
+
+/**
+ * Render a prompt template into a ready-to-run tool call.
+ * Returns null for unknown prompts and throws when required arguments are missing.
+ */
+export function renderImagePrompt(name: string, args: Record<string, string> = {}): RenderedImagePrompt | null {
+  const template = getPromptTemplates().find(candidate => candidate.name === name);
+  if (!template) {
+    return null;
+  }
+
+  const values: Record<string, string> = {};
+  for (const argument of template.arguments) {
+    const value = args[argument.name]?.trim() || argument.default;
+    if (value) {
+      values[argument.name] = value;
+    } else if (argument.required) {
+      throw new Error(`Missing required argument "${argument.name}" for prompt "${name}"`);
+    }
+  }
+
+  const toolArgs = buildToolArguments(template, values);
+  const description = template.description || `Run ${template.tool} with the "${template.name}" template`;
+
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [
+            `${description}.`,
+            '',
+            `Call the \`${template.tool}\` tool with these arguments:`,
+            '',
+            '```json',
+            JSON.stringify(toolArgs, null, 2),
+            '```',
+          ].join('\n'),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Fill in the prompt and tool parameters, dropping anything that references a missing argument
+ */
+function buildToolArguments(template: PromptTemplate, values: Record<string, string>): Record<string, unknown> {
+  const prompt = template.prompt
+    .split(',')
+    .filter(fragment => isResolvable(fragment, values))
+    .map(fragment => fragment.trim())
+    .filter(fragment => fragment.length > 0)
+    .join(', ');
+
+  const toolArgs: Record<string, unknown> = { prompt: fillPlaceholders(prompt, values) };
+
+  for (const [key, value] of Object.entries(template.params)) {
+    if (typeof value !== 'string') {
+      toolArgs[key] = value;
+    } else if (isResolvable(value, values)) {
+      toolArgs[key] = fillPlaceholders(value, values);
+    }
+  }
+
+  // Fall back to the style's recommended size
+  if (template.tool === 'generate_image' && toolArgs.width === undefined && toolArgs.height === undefined) {
+    const style = toolArgs.style;
+    const dimensions = getRecommendedDimensions(typeof style === 'string' && isValidStyle(style) ? style : undefined);
+    toolArgs.width = dimensions.width;
+    toolArgs.height = dimensions.height;
+  }
+
+  return toolArgs;
+}
+
+/**
+ * Check that every placeholder in the text has a value
+ */
+function isResolvable(text: string, values: Record<string, string>): boolean {
+  return [...text.matchAll(PLACEHOLDER)].every(match => values[match[1] as string] !== undefined);
+}
+
+/**
+ * Replace placeholders with argument values
+ */
+function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (_, key: string) => values[key] ?? '');
+}
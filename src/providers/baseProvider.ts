@@ -1,17 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import type {
   ImageProvider,
   ImageGenerationRequest,
   ImageGenerationResult,
   ImageDescriptionResult,
+  ImageDescriptionOptions,
   ImageTaggingResult,
+  ImageTaggingOptions,
   ProviderError,
 } from '../types/index.js';
 
+/**
+ * Counts the retries `executeWithRetry` makes within a provider call, for the attempt log of results
+ */
+export const retryTracking = new AsyncLocalStorage<{ retries: number }>();
+
 /**
  * Abstract base class for image providers
  */
 export abstract class BaseImageProvider implements ImageProvider {
   abstract name: string;
+  abstract readonly type: string;
   protected timeout: number;
   protected retryAttempts: number;
   protected retryDelay: number;
@@ -30,14 +39,14 @@ export abstract class BaseImageProvider implements ImageProvider {
   /**
    * Describe image content (optional)
    */
-  async describeImage?(imageUrl: string): Promise<ImageDescriptionResult> {
+  async describeImage?(imageUrl: string, options?: ImageDescriptionOptions): Promise<ImageDescriptionResult> {
     throw this.createError('IMAGE_DESCRIPTION_NOT_SUPPORTED', 'Image description not supported by this provider');
   }
 
   /**
    * Tag image content (optional)
    */
-  async tagImage?(imageUrl: string): Promise<ImageTaggingResult> {
+  async tagImage?(imageUrl: string, options?: ImageTaggingOptions): Promise<ImageTaggingResult> {
     throw this.createError('IMAGE_TAGGING_NOT_SUPPORTED', 'Image tagging not supported by this provider');
   }
 
@@ -90,11 +99,12 @@ export abstract class BaseImageProvider implements ImageProvider {
   }
 
   /**
-   * Execute with retry logic
+   * Execute with retry logic; by default everything but client errors is retried
    */
   protected async executeWithRetry<T>(
     operation: () => Promise<T>,
-    operationName: string
+    operationName: string,
+    shouldRetry: (error: unknown) => boolean = error => !this.isClientError(error)
   ): Promise<T> {
     let lastError: Error | null = null;
 
@@ -107,12 +117,16 @@ export abstract class BaseImageProvider implements ImageProvider {
       } catch (error) {
         lastError = error as Error;
         
-        // Don't retry on client errors (4xx)
-        if (this.isClientError(error)) {
+        if (!shouldRetry(error)) {
           throw error;
         }
 
         if (attempt < this.retryAttempts) {
+          const tracking = retryTracking.getStore();
+          if (tracking) {
+            tracking.retries++;
+          }
+
           const delay = this.retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
           console.warn(
             `${this.name} ${operationName} attempt ${attempt} failed, retrying in ${delay}ms:`,
@@ -146,9 +160,19 @@ export abstract class BaseImageProvider implements ImageProvider {
       'PERMISSION_DENIED',
       'QUOTA_EXCEEDED',
       'CONTENT_POLICY_VIOLATION',
+      'PROVIDER_NOT_CONFIGURED',
+      'REPLAY_MISS',
     ];
 
-    return nonRetryableErrorCodes.includes(error?.code);
+    // Look through wrapped errors as well (provider errors keep the original in details, SDKs in cause)
+    for (let current = error, depth = 0; current && depth < 5; depth++) {
+      if (nonRetryableErrorCodes.includes(current.code)) {
+        return true;
+      }
+      current = current.details?.error || current.cause;
+    }
+
+    return false;
   }
 
   /**
@@ -224,7 +248,7 @@ export abstract class BaseImageProvider implements ImageProvider {
   /**
    * Check if provider supports feature
    */
-  supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'transparency' | 'logo'): boolean {
+  supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean {
     switch (feature) {
       case 'generation':
         return true;
@@ -246,6 +270,7 @@ export abstract class BaseImageProvider implements ImageProvider {
    */
   getInfo(): {
     name: string;
+    type: string;
     supportedFormats: string[];
     supportedDimensions: { width: number; height: number }[];
     maxImageCount: number;
@@ -256,11 +281,14 @@ export abstract class BaseImageProvider implements ImageProvider {
     if (this.supportsFeature('generation')) features.push('generation');
     if (this.supportsFeature('description')) features.push('description');
     if (this.supportsFeature('tagging')) features.push('tagging');
+    if (this.supportsFeature('detection')) features.push('detection');
+    if (this.supportsFeature('zero-shot')) features.push('zero-shot');
     if (this.supportsFeature('transparency')) features.push('transparency');
     if (this.supportsFeature('logo')) features.push('logo');
 
     return {
       name: this.name,
+      type: this.type,
       supportedFormats: this.getSupportedFormats(),
       supportedDimensions: this.getSupportedDimensions(),
       maxImageCount: this.getMaxImageCount(),
@@ -1,28 +1,65 @@
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
+import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
 import { BaseImageProvider } from './baseProvider.js';
+import { createProviderFetch } from './httpCassette.js';
 import { applyStyleToPrompt } from '../config/imageStyles.js';
+import { buildDescribePrompt, DETAIL_MAX_TOKENS } from '../config/descriptionPrompts.js';
 import type {
   ImageGenerationRequest,
   ImageGenerationResult,
   ImageDescriptionResult,
+  ImageDescriptionOptions,
+  ImageTaggingResult,
+  ImageTaggingOptions,
+  ImageTag,
   ChatGPTConfig,
   GeneratedImage,
 } from '../types/index.js';
 
+// Same categories the tag_image tool filters on
+const TAG_CATEGORIES = [
+  'objects', 'animals', 'people', 'places', 'activities',
+  'food', 'vehicles', 'nature', 'technology', 'art',
+];
+
+// Scope of Entra tokens for Azure OpenAI
+const AZURE_COGNITIVE_SCOPE = 'https://cognitiveservices.azure.com/.default';
+
+/**
+ * What an OpenAI image model accepts
+ */
+interface ImageModelCapabilities {
+  family: 'dall-e-2' | 'dall-e-3' | 'gpt-image';
+  sizes: string[];
+  maxCount: number;
+}
+
+const IMAGE_MODELS: Record<ImageModelCapabilities['family'], ImageModelCapabilities> = {
+  'dall-e-2': { family: 'dall-e-2', sizes: ['1024x1024', '512x512', '256x256'], maxCount: 10 },
+  'dall-e-3': { family: 'dall-e-3', sizes: ['1024x1024', '1792x1024', '1024x1792'], maxCount: 1 },
+  // gpt-image-1 and its successors: base64 output, native transparency and output formats
+  'gpt-image': { family: 'gpt-image', sizes: ['1024x1024', '1536x1024', '1024x1536'], maxCount: 10 },
+};
+
 /**
- * ChatGPT/OpenAI DALL-E provider for image generation
+ * ChatGPT/OpenAI DALL-E provider for image generation, against OpenAI or Azure OpenAI
  */
 export class ChatGPTProvider extends BaseImageProvider {
-  name = 'chatgpt';
+  readonly type = 'chatgpt';
+  name: string;
   private client: OpenAI | null = null;
   private config: ChatGPTConfig;
+  private fetch: typeof fetch;
+  private entraToken: { token: string; expiresAt: number } | null = null;
 
-  constructor(config: ChatGPTConfig) {
+  constructor(config: ChatGPTConfig, name: string = 'chatgpt') {
     super(config.timeout);
+    this.name = name;
     this.config = config;
+    this.fetch = createProviderFetch(this.name, config.recording, this.getSecrets());
     
-    if (config.enabled && config.apiKey) {
+    if (config.enabled && this.hasCredentials()) {
       this.initializeClient();
     }
   }
@@ -31,23 +68,101 @@ export class ChatGPTProvider extends BaseImageProvider {
    * Initialize OpenAI client
    */
   private initializeClient(): void {
-    if (!this.config.apiKey) {
+    if (this.isAzure()) {
+      this.client = this.createAzureClient();
+      return;
+    }
+
+    const apiKey = this.getApiKey();
+    if (!apiKey) {
       throw this.createError('CONFIGURATION_ERROR', 'OpenAI API key is required');
     }
 
     this.client = new OpenAI({
-      apiKey: this.config.apiKey,
+      apiKey,
+      fetch: this.fetch,
+      // Recorded traffic either matches or not, retrying a replay miss is pointless
+      ...(this.config.recording.mode === 'replay' ? { maxRetries: 0 } : {}),
       baseURL: this.config.baseUrl,
       organization: this.config.organization,
       timeout: this.config.timeout || 30000,
     });
   }
 
+  /**
+   * Initialize Azure OpenAI client; requests are routed to deployments by their model name
+   */
+  private createAzureClient(): AzureOpenAI {
+    const azure = this.config.azure!;
+    const endpoint = azure.endpoint!.replace(/\/+$/, '');
+    const auth = azure.auth === 'entra'
+      ? { azureADTokenProvider: () => this.getEntraToken() }
+      : { apiKey: this.getApiKey() };
+
+    return new AzureOpenAI({
+      ...auth,
+      // Explicit base URL, so OPENAI_BASE_URL meant for OpenAI doesn't leak in
+      baseURL: `${endpoint}/openai`,
+      apiVersion: azure.apiVersion,
+      fetch: this.fetch,
+      ...(this.config.recording.mode === 'replay' ? { maxRetries: 0 } : {}),
+      timeout: this.config.timeout || 30000,
+    });
+  }
+
+  /**
+   * Entra access token: the configured token, or one obtained with client credentials and cached until it expires
+   */
+  private async getEntraToken(): Promise<string> {
+    const azure = this.config.azure!;
+    if (azure.adToken) {
+      return azure.adToken;
+    }
+    if (this.config.recording.mode === 'replay') {
+      return 'replay';
+    }
+    if (this.entraToken && this.entraToken.expiresAt > Date.now() + 60000) {
+      return this.entraToken.token;
+    }
+
+    if (!azure.tenantId || !azure.clientId || !azure.clientSecret) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Entra auth needs adToken or tenantId, clientId and clientSecret');
+    }
+
+    // Plain fetch: token exchanges are never recorded into cassettes
+    let response: Response;
+    try {
+      response = await fetch(`https://login.microsoftonline.com/${encodeURIComponent(azure.tenantId)}/oauth2/v2.0/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'client_credentials',
+          client_id: azure.clientId,
+          client_secret: azure.clientSecret,
+          scope: AZURE_COGNITIVE_SCOPE,
+        }),
+      });
+    } catch (error: any) {
+      throw this.createError('NETWORK_ERROR', `Cannot reach Microsoft Entra: ${error.message}`, { error });
+    }
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok || typeof data.access_token !== 'string') {
+      throw this.createError('AUTHENTICATION_FAILED', `Entra token request failed: ${data.error_description || data.error || response.statusText}`);
+    }
+
+    this.entraToken = {
+      token: data.access_token,
+      expiresAt: Date.now() + Number(data.expires_in || 3600) * 1000,
+    };
+    return this.entraToken.token;
+  }
+
   /**
    * Check if provider is available and configured
    */
   async isAvailable(): Promise<boolean> {
-    if (!this.config.enabled || !this.config.apiKey || !this.client) {
+    if (!this.config.enabled || !this.client) {
       return false;
     }
 
@@ -75,56 +190,66 @@ export class ChatGPTProvider extends BaseImageProvider {
     const sanitizedPrompt = this.sanitizePrompt(request.prompt);
     const styledPrompt = applyStyleToPrompt(sanitizedPrompt, request.style);
 
+    const capabilities = this.getModelCapabilities();
+    const format = this.getOutputFormat(request, capabilities);
+
     return this.executeWithRetry(async () => {
-      const dalleParams: OpenAI.Images.ImageGenerateParams = {
+      const size = request.dimensions
+        ? this.mapDimensionsToSize(request.dimensions, capabilities.sizes)
+        : '1024x1024';
+
+      const params: OpenAI.Images.ImageGenerateParams = {
         prompt: styledPrompt,
-        model: this.config.model || 'dall-e-3',
-        n: Math.min(request.count || 1, this.getMaxImageCount()),
-        quality: request.quality || 'standard',
-        response_format: 'url',
+        model: this.getImageDeployment(),
+        n: Math.min(request.count || 1, capabilities.maxCount),
+        size: size as NonNullable<OpenAI.Images.ImageGenerateParams['size']>,
         user: requestId,
       };
 
-      // Set size based on dimensions
-      if (request.dimensions) {
-        dalleParams.size = this.mapDimensionsToSize(request.dimensions) as '1024x1024' | '1024x1792' | '1792x1024' | '256x256' | '512x512';
+      if (capabilities.family === 'gpt-image') {
+        // Always base64; format, compression and transparency are native parameters
+        params.quality = request.quality === 'hd' ? 'high' : 'medium';
+        params.output_format = format;
+        if (format !== 'png' && this.config.outputCompression !== undefined) {
+          params.output_compression = this.config.outputCompression;
+        }
+        if (request.transparent) {
+          params.background = 'transparent';
+        }
       } else {
-        dalleParams.size = '1024x1024';
-      }
-
-      // DALL-E 3 specific parameters
-      if (this.config.model === 'dall-e-3') {
-        dalleParams.style = request.style === 'realistic' ? 'natural' : 'vivid';
+        params.response_format = 'b64_json';
+        params.quality = capabilities.family === 'dall-e-3' ? request.quality || 'standard' : 'standard';
+        if (capabilities.family === 'dall-e-3') {
+          params.style = request.style === 'realistic' ? 'natural' : 'vivid';
+        }
       }
 
       try {
-        const response = await this.client!.images.generate(dalleParams);
+        const response = await this.client!.images.generate(params);
         
         if (!response.data || response.data.length === 0) {
           throw this.createError('INVALID_RESPONSE', 'No images in response');
         }
+
+        const [width = 1024, height = 1024] = size.split('x').map(Number);
         
         const images: GeneratedImage[] = await Promise.all(
-          response.data.map(async (imageData, index) => {
-            if (!imageData.url) {
-              throw this.createError('INVALID_RESPONSE', 'No image URL in response');
-            }
+          response.data.map(async (imageData) => {
+            let buffer = await this.readImageData(imageData);
 
-            // Download image to get metadata
-            const imageResponse = await fetch(imageData.url);
-            if (!imageResponse.ok) {
-              throw this.createError('DOWNLOAD_FAILED', `Failed to download generated image: ${imageResponse.statusText}`);
+            // DALL-E only returns PNG
+            if (capabilities.family !== 'gpt-image' && format !== 'png') {
+              buffer = await sharp(buffer).toFormat(format).toBuffer();
             }
 
-            const imageBuffer = await imageResponse.arrayBuffer();
-            const base64 = Buffer.from(imageBuffer).toString('base64');
+            const base64 = buffer.toString('base64');
 
             return {
-              url: imageData.url,
+              url: `data:image/${format};base64,${base64}`,
               base64,
-              format: request.format || 'png',
-              dimensions: request.dimensions || { width: 1024, height: 1024 },
-              size: imageBuffer.byteLength,
+              format,
+              dimensions: { width, height },
+              size: buffer.length,
               metadata: {
                 prompt: sanitizedPrompt,
                 style: request.style || 'realistic',
@@ -149,6 +274,8 @@ export class ChatGPTProvider extends BaseImageProvider {
         if (error?.error?.code) {
           switch (error.error.code) {
             case 'content_policy_violation':
+            case 'content_filter':
+            case 'moderation_blocked':
               throw this.createError('CONTENT_POLICY_VIOLATION', 'Content violates OpenAI content policy');
             case 'invalid_request_error':
               throw this.createError('INVALID_REQUEST', error.error.message || 'Invalid request');
@@ -156,6 +283,8 @@ export class ChatGPTProvider extends BaseImageProvider {
               throw this.createError('RATE_LIMIT_EXCEEDED', 'API rate limit exceeded');
             case 'insufficient_quota':
               throw this.createError('QUOTA_EXCEEDED', 'API quota exceeded');
+            case 'DeploymentNotFound':
+              throw this.createError('PROVIDER_NOT_CONFIGURED', `Azure deployment ${params.model} not found`);
             default:
               throw this.createError('API_ERROR', error.error.message || 'Unknown API error');
           }
@@ -167,24 +296,31 @@ export class ChatGPTProvider extends BaseImageProvider {
   }
 
   /**
-   * Describe image using GPT-4 Vision
+   * Describe image using the vision model
    */
-  override async describeImage(imageUrl: string): Promise<ImageDescriptionResult> {
+  override async describeImage(imageUrl: string, options: ImageDescriptionOptions = {}): Promise<ImageDescriptionResult> {
     if (!this.client) {
       throw this.createError('PROVIDER_NOT_CONFIGURED', 'ChatGPT provider is not configured');
     }
 
+    const visionModel = this.getVisionDeployment();
+    if (!visionModel) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Azure OpenAI needs azure.visionDeployment for image description');
+    }
+
+    const prompt = buildDescribePrompt(options, this.config.describePrompt);
+
     return this.executeWithRetry(async () => {
       try {
         const response = await this.client!.chat.completions.create({
-          model: 'gpt-4-vision-preview',
+          model: visionModel,
           messages: [
             {
               role: 'user',
               content: [
                 {
                   type: 'text',
-                  text: 'Describe this image in detail. Include information about objects, people, colors, composition, style, and mood.',
+                  text: prompt,
                 },
                 {
                   type: 'image_url',
@@ -193,7 +329,7 @@ export class ChatGPTProvider extends BaseImageProvider {
               ],
             },
           ],
-          max_tokens: 500,
+          max_tokens: DETAIL_MAX_TOKENS[options.detailLevel || 'detailed'],
         });
 
         const description = response.choices[0]?.message?.content;
@@ -209,77 +345,248 @@ export class ChatGPTProvider extends BaseImageProvider {
         };
 
       } catch (error: any) {
-        if (error?.error?.code === 'model_not_found') {
-          throw this.createError('FEATURE_NOT_AVAILABLE', 'GPT-4 Vision is not available');
-        }
-
-        throw this.createError('DESCRIPTION_FAILED', `Image description failed: ${error.message}`, { error });
+        throw this.mapVisionError(error, visionModel, 'DESCRIPTION_FAILED', 'Image description');
       }
     }, 'describe image');
   }
 
   /**
-   * Map dimensions to DALL-E size format
+   * Tag image with the vision model, using a JSON schema response
    */
-  private mapDimensionsToSize(dimensions: { width: number; height: number }): string {
-    const { width, height } = dimensions;
-    
-    // DALL-E 3 supported sizes
-    const supportedSizes = [
-      '1024x1024',
-      '1024x1792',
-      '1792x1024',
-    ];
-
-    // Find closest supported size
-    const requestedSize = `${width}x${height}`;
-    if (supportedSizes.includes(requestedSize)) {
+  override async tagImage(imageUrl: string, options: ImageTaggingOptions = {}): Promise<ImageTaggingResult> {
+    if (!this.client) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'ChatGPT provider is not configured');
+    }
+
+    const visionModel = this.getVisionDeployment();
+    if (!visionModel) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Azure OpenAI needs azure.visionDeployment for image tagging');
+    }
+
+    const maxTags = options.maxTags || 10;
+    const categories = options.categories?.length
+      ? TAG_CATEGORIES.filter(category => options.categories!.includes(category))
+      : TAG_CATEGORIES;
+    // The strict schema rejects an empty enum. tag_image already limits categories to TAG_CATEGORIES,
+    // this protects direct callers of the provider (other tools, plugins, scripts)
+    if (categories.length === 0) {
+      throw this.createError(
+        'INVALID_REQUEST',
+        `None of the requested tag categories is supported: ${options.categories!.join(', ')}. Supported categories: ${TAG_CATEGORIES.join(', ')}`
+      );
+    }
+    const language = options.language || 'english';
+
+    const prompt =
+      `List up to ${maxTags} tags for the visible content of this image, most relevant first. ` +
+      `Use short, specific labels as an asset catalog would (e.g. "tabby cat", not "tabby, tabby cat"), written in ${language}. ` +
+      `Give each tag a confidence between 0 and 1 and one category from: ${categories.join(', ')}. ` +
+      'Leave out anything that fits none of these categories.';
+
+    return this.executeWithRetry(async () => {
+      let content: string | null | undefined;
+      try {
+        const response = await this.client!.chat.completions.create({
+          model: visionModel,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                { type: 'image_url', image_url: { url: imageUrl } },
+              ],
+            },
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: 'image_tags',
+              strict: true,
+              schema: {
+                type: 'object',
+                properties: {
+                  tags: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        label: { type: 'string' },
+                        confidence: { type: 'number' },
+                        category: { type: 'string', enum: categories },
+                      },
+                      required: ['label', 'confidence', 'category'],
+                      additionalProperties: false,
+                    },
+                  },
+                },
+                required: ['tags'],
+                additionalProperties: false,
+              },
+            },
+          },
+          max_tokens: 1000,
+        });
+        content = response.choices[0]?.message?.content;
+      } catch (error: any) {
+        throw this.mapVisionError(error, visionModel, 'TAGGING_FAILED', 'Image tagging');
+      }
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(content || '');
+      } catch (error) {
+        throw this.createError('INVALID_RESPONSE', 'Model did not return valid JSON tags', { content });
+      }
+
+      if (!Array.isArray(parsed?.tags)) {
+        throw this.createError('INVALID_RESPONSE', 'Invalid tagging response', { content });
+      }
+
+      const seen = new Set<string>();
+      const tags: ImageTag[] = [];
+      for (const item of parsed.tags) {
+        const label = typeof item?.label === 'string' ? item.label.trim() : '';
+        if (!label || seen.has(label.toLowerCase())) continue;
+        seen.add(label.toLowerCase());
+
+        const confidence = Number(item.confidence);
+        tags.push({
+          label,
+          confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+          ...(categories.includes(item.category) ? { category: item.category } : {}),
+        });
+      }
+
+      return {
+        success: true,
+        tags: tags.slice(0, maxTags),
+        provider: this.name,
+      };
+    }, 'tag image');
+  }
+
+  /**
+   * Map a vision chat completion error to a provider error
+   */
+  private mapVisionError(error: any, visionModel: string, fallbackCode: string, operation: string): Error {
+    switch (error?.error?.code) {
+      case 'model_not_found':
+        return this.createError('FEATURE_NOT_AVAILABLE', `Vision model ${visionModel} is not available`);
+      case 'DeploymentNotFound':
+        return this.createError('PROVIDER_NOT_CONFIGURED', `Azure deployment ${visionModel} not found`);
+      case 'content_filter':
+        return this.createError('CONTENT_POLICY_VIOLATION', 'Image was blocked by the Azure content filter');
+      case 'rate_limit_exceeded':
+        return this.createError('RATE_LIMIT_EXCEEDED', 'API rate limit exceeded');
+      case 'insufficient_quota':
+        return this.createError('QUOTA_EXCEEDED', 'API quota exceeded');
+      default:
+        return this.createError(fallbackCode, `${operation} failed: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Capabilities of the configured image model. Unknown models (gateways, fine-tunes) are treated as DALL-E 3.
+   */
+  private getModelCapabilities(): ImageModelCapabilities {
+    const model = (this.config.model || 'dall-e-3').toLowerCase();
+    if (model.startsWith('gpt-image')) {
+      return IMAGE_MODELS['gpt-image'];
+    }
+    if (model.startsWith('dall-e-2')) {
+      return IMAGE_MODELS['dall-e-2'];
+    }
+    return IMAGE_MODELS['dall-e-3'];
+  }
+
+  /**
+   * Output format for a request; transparency needs PNG or WebP
+   */
+  private getOutputFormat(request: ImageGenerationRequest, capabilities: ImageModelCapabilities): 'png' | 'jpeg' | 'webp' {
+    const format = request.format || 'png';
+    if (capabilities.family === 'gpt-image' && request.transparent && format === 'jpeg') {
+      return 'png';
+    }
+    return format;
+  }
+
+  /**
+   * Decode a generated image, downloading it when the API returned a URL (OpenAI-compatible gateways)
+   */
+  private async readImageData(imageData: OpenAI.Images.Image): Promise<Buffer> {
+    if (imageData.b64_json) {
+      return Buffer.from(imageData.b64_json, 'base64');
+    }
+    if (!imageData.url) {
+      throw this.createError('INVALID_RESPONSE', 'No image data in response');
+    }
+
+    const imageResponse = await this.fetch(imageData.url);
+    if (!imageResponse.ok) {
+      throw this.createError('DOWNLOAD_FAILED', `Failed to download generated image: ${imageResponse.statusText}`);
+    }
+    return Buffer.from(await imageResponse.arrayBuffer());
+  }
+
+  /**
+   * Map dimensions to the model size with the closest aspect ratio
+   */
+  private mapDimensionsToSize(dimensions: { width: number; height: number }, sizes: string[]): string {
+    const requestedSize = `${dimensions.width}x${dimensions.height}`;
+    if (sizes.includes(requestedSize)) {
       return requestedSize;
     }
 
-    // Default to square
-    if (width === height) return '1024x1024';
-    
-    // Choose based on aspect ratio
-    return width > height ? '1792x1024' : '1024x1792';
+    const ratio = Math.log(dimensions.width / dimensions.height);
+    let best = sizes[0] || '1024x1024';
+    let bestDistance = Infinity;
+    for (const size of sizes) {
+      const [width = 1, height = 1] = size.split('x').map(Number);
+      const distance = Math.abs(Math.log(width / height) - ratio);
+      // Sizes are listed largest first, so ties keep the largest (DALL-E 2 only has squares)
+      if (distance < bestDistance - 1e-9) {
+        best = size;
+        bestDistance = distance;
+      }
+    }
+    return best;
   }
 
   /**
    * Get supported formats
    */
   override getSupportedFormats(): string[] {
-    return ['png'];
+    return ['png', 'jpeg', 'webp'];
   }
 
   /**
    * Get supported dimensions
    */
   override getSupportedDimensions(): { width: number; height: number }[] {
-    return [
-      { width: 1024, height: 1024 },
-      { width: 1024, height: 1792 },
-      { width: 1792, height: 1024 },
-    ];
+    return this.getModelCapabilities().sizes.map(size => {
+      const [width = 1024, height = 1024] = size.split('x').map(Number);
+      return { width, height };
+    });
   }
 
   /**
    * Get maximum image count
    */
   override getMaxImageCount(): number {
-    return this.config.model === 'dall-e-3' ? 1 : 10;
+    return this.getModelCapabilities().maxCount;
   }
 
   /**
    * Check if provider supports feature
    */
-  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'transparency' | 'logo'): boolean {
+  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean {
     switch (feature) {
       case 'generation':
         return true;
       case 'description':
-        return true; // GPT-4 Vision
+        return !!this.getVisionDeployment(); // Vision model
       case 'tagging':
-        return false; // Not implemented
+        return !!this.getVisionDeployment(); // Vision model with structured output
       case 'transparency':
         return true; // PNG support
       case 'logo':
@@ -289,13 +596,62 @@ export class ChatGPTProvider extends BaseImageProvider {
     }
   }
 
+  /**
+   * Whether requests go to Azure OpenAI
+   */
+  private isAzure(): boolean {
+    return !!this.config.azure?.endpoint;
+  }
+
+  /**
+   * Model (OpenAI) or deployment (Azure) used for generation
+   */
+  private getImageDeployment(): string {
+    return (this.isAzure() && this.config.azure!.imageDeployment) || this.config.model || 'dall-e-3';
+  }
+
+  /**
+   * Model (OpenAI) or deployment (Azure) used for description; Azure has no default deployment
+   */
+  private getVisionDeployment(): string | undefined {
+    return this.isAzure() ? this.config.azure!.visionDeployment : this.config.visionModel;
+  }
+
+  /**
+   * API key, or a placeholder when replaying recorded traffic without one
+   */
+  private getApiKey(): string | undefined {
+    const apiKey = (this.isAzure() && this.config.azure!.apiKey) || this.config.apiKey;
+    return apiKey || (this.config.recording.mode === 'replay' ? 'replay' : undefined);
+  }
+
+  /**
+   * Whether the client can be created with the configured credentials
+   */
+  private hasCredentials(): boolean {
+    if (this.isAzure() && this.config.azure!.auth === 'entra') {
+      return true; // Missing Entra settings surface on the first request
+    }
+    return !!this.getApiKey();
+  }
+
+  /**
+   * Values redacted from recordings
+   */
+  private getSecrets(): Array<string | undefined> {
+    const azure = this.config.azure;
+    return [this.config.apiKey, azure?.apiKey, azure?.clientSecret, azure?.adToken];
+  }
+
   /**
    * Update configuration
    */
   updateConfig(config: Partial<ChatGPTConfig>): void {
     this.config = { ...this.config, ...config };
+    this.fetch = createProviderFetch(this.name, this.config.recording, this.getSecrets());
+    this.entraToken = null;
     
-    if (this.config.enabled && this.config.apiKey) {
+    if (this.config.enabled && this.hasCredentials()) {
       this.initializeClient();
     } else {
       this.client = null;
@@ -306,7 +662,12 @@ export class ChatGPTProvider extends BaseImageProvider {
    * Get current configuration (without sensitive data)
    */
   getConfig(): Omit<ChatGPTConfig, 'apiKey'> {
-    const { apiKey, ...safeConfig } = this.config;
-    return safeConfig;
+    const { apiKey, azure, ...safeConfig } = this.config;
+    if (!azure) {
+      return safeConfig;
+    }
+
+    const { apiKey: azureApiKey, clientSecret, adToken, ...safeAzure } = azure;
+    return { ...safeConfig, azure: safeAzure };
   }
 }
\ No newline at end of file
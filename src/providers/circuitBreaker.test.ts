@@ -0,0 +1,127 @@
+import { jest } from '@jest/globals';
+import { CircuitBreakerRegistry } from './circuitBreaker.js';
+import type { CircuitBreakerConfig, ImageProvider } from '../types/index.js';
+
+function stubProvider(name: string, type: string = name): ImageProvider {
+  return { name, type } as unknown as ImageProvider;
+}
+
+function providerError(message: string, code?: string): Error & { code?: string } {
+  return Object.assign(new Error(message), code ? { code } : {});
+}
+
+describe('CircuitBreakerRegistry', () => {
+  const config: CircuitBreakerConfig = { enabled: true, failureThreshold: 2, cooldown: 1000, halfOpenRequests: 1, overrides: {} };
+  const provider = stubProvider('stability');
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockReturnValue(undefined);
+    jest.spyOn(console, 'warn').mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function fail(breakers: CircuitBreakerRegistry, times: number, code?: string): void {
+    for (let i = 0; i < times; i++) {
+      breakers.onRequest(provider, 'generation');
+      breakers.recordFailure(provider, 'generation', providerError('Service unavailable', code));
+    }
+  }
+
+  it('opens after consecutive failures reach the threshold', () => {
+    const breakers = new CircuitBreakerRegistry(config);
+
+    fail(breakers, 1);
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+
+    fail(breakers, 1);
+    expect(breakers.isOpen(provider, 'generation')).toBe(true);
+    expect(breakers.isOpen(provider, 'description')).toBe(false);
+    expect(breakers.getStatus('stability').generation).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      retryAt: new Date(now + 1000),
+      lastError: 'Service unavailable',
+    });
+  });
+
+  it('resets the failure count on success', () => {
+    const breakers = new CircuitBreakerRegistry(config);
+
+    fail(breakers, 1);
+    breakers.recordSuccess(provider, 'generation');
+    fail(breakers, 1);
+
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+  });
+
+  it('lets a trial through after the cool-down and closes when it succeeds', () => {
+    const breakers = new CircuitBreakerRegistry(config);
+    fail(breakers, 2);
+
+    now += 999;
+    expect(breakers.isOpen(provider, 'generation')).toBe(true);
+
+    now += 1;
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+    expect(breakers.getStatus('stability').generation?.state).toBe('half-open');
+
+    breakers.onRequest(provider, 'generation');
+    // Only one trial at a time
+    expect(breakers.isOpen(provider, 'generation')).toBe(true);
+
+    breakers.recordSuccess(provider, 'generation');
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+    expect(breakers.getStatus('stability')).toEqual({});
+  });
+
+  it('reopens at once when the trial fails', () => {
+    const breakers = new CircuitBreakerRegistry(config);
+    fail(breakers, 2);
+
+    now += 1000;
+    fail(breakers, 1);
+
+    expect(breakers.isOpen(provider, 'generation')).toBe(true);
+    expect(breakers.getStatus('stability').generation).toMatchObject({ state: 'open', consecutiveFailures: 3, retryAt: new Date(now + 1000) });
+  });
+
+  it('does not count request errors and releases the trial', () => {
+    const breakers = new CircuitBreakerRegistry(config);
+
+    fail(breakers, 3, 'CONTENT_POLICY_VIOLATION');
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+
+    fail(breakers, 2);
+    now += 1000;
+    fail(breakers, 1, 'INVALID_REQUEST');
+
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+    expect(breakers.getStatus('stability').generation?.state).toBe('half-open');
+  });
+
+  it('applies overrides by instance id or type', () => {
+    const breakers = new CircuitBreakerRegistry({ ...config, overrides: { stability: { failureThreshold: 1, cooldown: 50 } } });
+    const other = stubProvider('stability-eu', 'stability');
+
+    fail(breakers, 1);
+    expect(breakers.getStatus('stability').generation?.retryAt).toEqual(new Date(now + 50));
+
+    breakers.recordFailure(other, 'generation', providerError('Timeout'));
+    expect(breakers.isOpen(other, 'generation')).toBe(true);
+  });
+
+  it('never opens when disabled', () => {
+    const breakers = new CircuitBreakerRegistry({ ...config, enabled: false });
+
+    fail(breakers, 5);
+
+    expect(breakers.isOpen(provider, 'generation')).toBe(false);
+    expect(breakers.getStatus('stability')).toEqual({});
+  });
+});
@@ -0,0 +1,166 @@
+import { isRequestError } from './providerHealth.js';
+import type { ImageProvider, CircuitBreakerConfig, CircuitBreakerStatus, CircuitState } from '../types/index.js';
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number | undefined;
+  retryAt?: number | undefined;
+  trials: number; // requests in flight while half-open
+  lastError?: string | undefined;
+}
+
+/**
+ * Circuit breakers per provider and feature: a breaker opens after consecutive failures, rejects requests
+ * for the cool-down, then lets trial requests through (half-open) and closes again on success
+ */
+export class CircuitBreakerRegistry {
+  private circuits: Map<string, Map<string, Circuit>> = new Map();
+
+  constructor(private config: CircuitBreakerConfig) {}
+
+  /**
+   * Replace the config and close all breakers
+   */
+  configure(config: CircuitBreakerConfig): void {
+    this.config = config;
+    this.circuits.clear();
+  }
+
+  /**
+   * Whether requests for the feature should skip the provider right now
+   */
+  isOpen(provider: ImageProvider, feature: string): boolean {
+    const circuit = this.getCircuit(provider.name, feature);
+    if (!circuit) {
+      return false;
+    }
+
+    switch (circuit.state) {
+      case 'closed':
+        return false;
+      case 'open':
+        return Date.now() < (circuit.retryAt || 0);
+      case 'half-open':
+        return circuit.trials >= this.config.halfOpenRequests;
+    }
+  }
+
+  /**
+   * Note a request being sent; an open breaker whose cool-down has passed becomes half-open
+   */
+  onRequest(provider: ImageProvider, feature: string): void {
+    const circuit = this.getCircuit(provider.name, feature);
+    if (!circuit) return;
+
+    if (circuit.state === 'open' && Date.now() >= (circuit.retryAt || 0)) {
+      circuit.state = 'half-open';
+      circuit.trials = 0;
+    }
+    if (circuit.state === 'half-open') {
+      circuit.trials++;
+    }
+  }
+
+  /**
+   * Close the breaker after a successful request
+   */
+  recordSuccess(provider: ImageProvider, feature: string): void {
+    const circuit = this.getCircuit(provider.name, feature);
+    if (!circuit) return;
+
+    if (circuit.state !== 'closed') {
+      console.log(`Circuit for ${provider.name} ${feature} closed`);
+    }
+    this.getCircuits(provider.name).delete(feature);
+  }
+
+  /**
+   * Count a failed request; request errors (invalid input, content policy) only end a trial
+   */
+  recordFailure(provider: ImageProvider, feature: string, error: any): void {
+    if (!this.config.enabled) return;
+
+    if (isRequestError(error)) {
+      this.release(provider, feature);
+      return;
+    }
+
+    const circuits = this.getCircuits(provider.name);
+    const circuit = circuits.get(feature) || { state: 'closed', consecutiveFailures: 0, trials: 0 };
+    circuits.set(feature, circuit);
+
+    const { failureThreshold, cooldown } = this.getSettings(provider);
+    circuit.consecutiveFailures++;
+    circuit.lastError = error?.message || String(error);
+
+    // A failed trial reopens at once, a closed breaker opens at the threshold
+    if (circuit.state === 'half-open' || (circuit.state === 'closed' && circuit.consecutiveFailures >= failureThreshold)) {
+      const now = Date.now();
+      circuit.state = 'open';
+      circuit.openedAt = now;
+      circuit.retryAt = now + cooldown;
+      circuit.trials = 0;
+      console.warn(`Circuit for ${provider.name} ${feature} opened for ${cooldown}ms after ${circuit.consecutiveFailures} failure(s): ${circuit.lastError}`);
+    }
+  }
+
+  /**
+   * End a trial request that neither succeeded nor failed because of the provider
+   */
+  release(provider: ImageProvider, feature: string): void {
+    const circuit = this.getCircuit(provider.name, feature);
+    if (circuit?.state === 'half-open' && circuit.trials > 0) {
+      circuit.trials--;
+    }
+  }
+
+  /**
+   * Breaker status per feature for a provider; features without failures are closed and omitted
+   */
+  getStatus(providerName: string): Record<string, CircuitBreakerStatus> {
+    const status: Record<string, CircuitBreakerStatus> = {};
+    for (const [feature, circuit] of this.getCircuits(providerName)) {
+      // An open breaker past its cool-down lets the next request through
+      const state = circuit.state === 'open' && Date.now() >= (circuit.retryAt || 0) ? 'half-open' : circuit.state;
+      status[feature] = {
+        state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        openedAt: circuit.openedAt ? new Date(circuit.openedAt) : undefined,
+        retryAt: circuit.retryAt && circuit.state === 'open' ? new Date(circuit.retryAt) : undefined,
+        lastError: circuit.lastError,
+      };
+    }
+    return status;
+  }
+
+  /**
+   * Threshold and cool-down for a provider, overridden by instance id or type
+   */
+  private getSettings(provider: ImageProvider): { failureThreshold: number; cooldown: number } {
+    const override = this.config.overrides[provider.name] || this.config.overrides[provider.type] || {};
+    return {
+      failureThreshold: override.failureThreshold ?? this.config.failureThreshold,
+      cooldown: override.cooldown ?? this.config.cooldown,
+    };
+  }
+
+  /**
+   * Breaker of a provider and feature, if it has recorded failures
+   */
+  private getCircuit(providerName: string, feature: string): Circuit | undefined {
+    return this.config.enabled ? this.circuits.get(providerName)?.get(feature) : undefined;
+  }
+
+  /**
+   * Breakers of a provider by feature
+   */
+  private getCircuits(providerName: string): Map<string, Circuit> {
+    let circuits = this.circuits.get(providerName);
+    if (!circuits) {
+      circuits = new Map();
+      this.circuits.set(providerName, circuits);
+    }
+    return circuits;
+  }
+}
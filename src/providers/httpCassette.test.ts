@@ -0,0 +1,92 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { jest } from '@jest/globals';
+import { HttpCassette } from './httpCassette.js';
+import type { RecordingConfig } from '../types/index.js';
+
+const API_KEY = 'sk-test-1234567890abcdef';
+
+describe('HttpCassette', () => {
+  let directory: string;
+  let stubFetch: jest.Mock<typeof fetch>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    stubFetch = jest.fn<typeof fetch>(async () => new Response(
+      JSON.stringify({ data: [{ url: 'https://images.example.com/1.png' }], echo: API_KEY }),
+      { status: 200, headers: { 'content-type': 'application/json' } }
+    ));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  function createFetch(mode: RecordingConfig['mode']): typeof fetch {
+    return new HttpCassette('test', { mode, directory }, [API_KEY]).createFetch(stubFetch);
+  }
+
+  function generate(fetchImpl: typeof fetch, prompt: string = 'a red fox'): Promise<Response> {
+    return fetchImpl(`https://api.example.com/v1/images?key=${API_KEY}&size=512`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${API_KEY}` },
+      body: JSON.stringify({ prompt, user: `session-${Math.random()}` }),
+    });
+  }
+
+  function upload(fetchImpl: typeof fetch): Promise<Response> {
+    const form = new FormData();
+    form.append('prompt', 'remove the background');
+    form.append('image', new Blob([Buffer.from('fake image bytes')], { type: 'image/png' }), 'image.png');
+    return fetchImpl('https://api.example.com/v1/edit', { method: 'POST', body: form });
+  }
+
+  it('replays a recorded response without calling the network', async () => {
+    const recorded = await (await generate(createFetch('record'))).json();
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+
+    const replayed = await generate(createFetch('replay'));
+
+    expect(replayed.status).toBe(200);
+    expect((await replayed.json()).data).toEqual(recorded.data);
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('redacts the API key, auth headers and credential query parameters', async () => {
+    await generate(createFetch('record'));
+
+    const written = await fs.readFile(path.join(directory, 'test.json'), 'utf8');
+    const [interaction] = JSON.parse(written).interactions;
+
+    expect(written).not.toContain(API_KEY);
+    expect(interaction.request.headers.authorization).toBe('[REDACTED]');
+    expect(new URL(interaction.request.url).searchParams.get('key')).toBe('[REDACTED]');
+    expect(new URL(interaction.request.url).searchParams.get('size')).toBe('512');
+    expect(interaction.response.body).toContain('[REDACTED]');
+  });
+
+  it('fails with REPLAY_MISS for a request that was not recorded', async () => {
+    await generate(createFetch('record'));
+
+    await expect(generate(createFetch('replay'), 'a blue whale')).rejects.toMatchObject({
+      code: 'REPLAY_MISS',
+      provider: 'test',
+    });
+  });
+
+  it('matches multipart requests whose boundaries differ', async () => {
+    await upload(createFetch('record'));
+    const replayed = await upload(createFetch('replay'));
+
+    expect(replayed.status).toBe(200);
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes requests straight through when recording is off', async () => {
+    await generate(createFetch('off'));
+
+    expect(stubFetch).toHaveBeenCalledTimes(1);
+    expect(await fs.pathExists(path.join(directory, 'test.json'))).toBe(false);
+  });
+});
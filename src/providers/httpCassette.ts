@@ -0,0 +1,326 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { writeFileAtomic, readJsonSafe } from '../utils/fileSystem.js';
+import type { RecordingConfig, ProviderError } from '../types/index.js';
+
+/**
+ * Recorded HTTP exchange
+ */
+export interface CassetteInteraction {
+  signature: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string | undefined;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+  recordedAt: string;
+}
+
+/**
+ * On-disk cassette file
+ */
+interface CassetteFile {
+  version: number;
+  provider: string;
+  interactions: CassetteInteraction[];
+}
+
+const CASSETTE_VERSION = 1;
+const REDACTED = '[REDACTED]';
+
+// Headers that carry credentials
+const SECRET_HEADERS = ['authorization', 'api-key', 'x-api-key', 'cookie', 'set-cookie', 'openai-organization'];
+
+// Query parameters that carry credentials
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token'];
+
+// Request body fields that change on every call and must not affect matching
+const VOLATILE_FIELDS = ['user'];
+
+// Response headers worth keeping for replay
+const KEPT_RESPONSE_HEADERS = ['content-type'];
+
+/**
+ * Cassette of recorded provider HTTP traffic, stored as `<directory>/<provider>.json`.
+ * In record mode requests go to the network and every exchange is appended to the cassette;
+ * in replay mode responses are served from the cassette, matched by a normalized request signature.
+ */
+export class HttpCassette {
+  private filePath: string;
+  private interactions: CassetteInteraction[] | null = null;
+  private replayCounts: Map<string, number> = new Map();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private provider: string,
+    private config: RecordingConfig,
+    private secrets: string[] = []
+  ) {
+    this.filePath = path.resolve(process.cwd(), config.directory, `${provider}.json`);
+  }
+
+  /**
+   * Build a fetch function that records or replays through this cassette
+   */
+  createFetch(baseFetch: typeof fetch = fetch): typeof fetch {
+    if (this.config.mode === 'off') {
+      return baseFetch;
+    }
+
+    return async (input, init) => {
+      const request = new Request(input, init);
+      const body = await this.readBody(request);
+      const signature = this.createSignature(request, body);
+
+      if (this.config.mode === 'replay') {
+        return this.replay(request, signature);
+      }
+
+      const response = await baseFetch(input, init);
+      return this.record(request, body, signature, response);
+    };
+  }
+
+  /**
+   * Serve a recorded response
+   */
+  private async replay(request: Request, signature: string): Promise<Response> {
+    const interactions = (await this.load()).filter(interaction => interaction.signature === signature);
+
+    if (interactions.length === 0) {
+      const error = new Error(
+        `No recorded response for ${request.method} ${this.redactUrl(request.url)} in ${this.filePath}`
+      ) as ProviderError;
+      error.name = 'ProviderError';
+      error.provider = this.provider;
+      error.code = 'REPLAY_MISS';
+      // SDKs tend to wrap fetch failures in generic connection errors, so say what happened here
+      console.warn(error.message);
+      throw error;
+    }
+
+    // Identical requests replay their recordings in order, the last one repeats
+    const count = this.replayCounts.get(signature) || 0;
+    this.replayCounts.set(signature, count + 1);
+    const { response } = interactions[Math.min(count, interactions.length - 1)] as CassetteInteraction;
+
+    const body = response.encoding === 'base64'
+      ? Buffer.from(response.body, 'base64')
+      : response.body;
+
+    return new Response([204, 304].includes(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Store a live response and hand an unconsumed copy back to the caller
+   */
+  private async record(request: Request, body: Buffer | null, signature: string, response: Response): Promise<Response> {
+    const data = Buffer.from(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') || '';
+    const isText = /json|text|xml/.test(contentType);
+
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_RESPONSE_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) headers[name] = value;
+    }
+
+    const interaction: CassetteInteraction = {
+      signature,
+      request: {
+        method: request.method,
+        url: this.redactUrl(request.url),
+        headers: this.redactHeaders(request.headers),
+        body: body ? this.describeBody(body) : undefined,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: isText ? this.redactText(data.toString('utf8')) : data.toString('base64'),
+        encoding: isText ? 'utf8' : 'base64',
+      },
+      recordedAt: new Date().toISOString(),
+    };
+
+    await this.append(interaction);
+
+    return new Response([204, 304].includes(response.status) ? null : data, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Append an interaction and save the cassette
+   */
+  private append(interaction: CassetteInteraction): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        const interactions = await this.load();
+        interactions.push(interaction);
+
+        const cassette: CassetteFile = { version: CASSETTE_VERSION, provider: this.provider, interactions };
+        await writeFileAtomic(this.filePath, JSON.stringify(cassette, null, 2));
+      })
+      .catch(error => console.warn(`Failed to write cassette ${this.filePath}:`, error));
+
+    return this.pendingWrite;
+  }
+
+  /**
+   * Load recorded interactions
+   */
+  private async load(): Promise<CassetteInteraction[]> {
+    if (!this.interactions) {
+      const cassette = await readJsonSafe<CassetteFile>(this.filePath);
+      this.interactions = cassette?.version === CASSETTE_VERSION && Array.isArray(cassette.interactions)
+        ? cassette.interactions
+        : [];
+    }
+
+    return this.interactions;
+  }
+
+  /**
+   * Read the request body without consuming the original request
+   */
+  private async readBody(request: Request): Promise<Buffer | null> {
+    if (!request.body) {
+      return null;
+    }
+
+    return Buffer.from(await request.clone().arrayBuffer());
+  }
+
+  /**
+   * Hash method, credential-free URL and normalized body
+   */
+  private createSignature(request: Request, body: Buffer | null): string {
+    const url = new URL(request.url);
+    for (const name of SECRET_PARAMS) {
+      url.searchParams.delete(name);
+    }
+    url.searchParams.sort();
+
+    const parts = [request.method.toUpperCase(), url.toString()];
+    if (body && body.length > 0) {
+      parts.push(this.normalizeBody(body, request.headers.get('content-type') || ''));
+    }
+
+    return createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * JSON bodies are compared by content (sorted keys, volatile fields removed), anything else by hash.
+   * Multipart boundaries are random per request, so they are replaced before hashing.
+   */
+  private normalizeBody(body: Buffer, contentType: string): string {
+    const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+    if (boundary) {
+      const normalized = body.toString('latin1').split(boundary[1] || boundary[2] || '').join('BOUNDARY');
+      return `sha256:${createHash('sha256').update(normalized, 'latin1').digest('hex')}`;
+    }
+
+    try {
+      const json = JSON.parse(body.toString('utf8'));
+      if (json && typeof json === 'object' && !Array.isArray(json)) {
+        for (const field of VOLATILE_FIELDS) {
+          delete json[field];
+        }
+      }
+      return stableStringify(json);
+    } catch {
+      return `sha256:${createHash('sha256').update(body).digest('hex')}`;
+    }
+  }
+
+  /**
+   * Readable, redacted form of a request body for the cassette
+   */
+  private describeBody(body: Buffer): string {
+    const text = body.toString('utf8');
+    try {
+      JSON.parse(text);
+      return this.redactText(text);
+    } catch {
+      return `<${body.length} bytes, sha256:${createHash('sha256').update(body).digest('hex')}>`;
+    }
+  }
+
+  /**
+   * Replace credential headers
+   */
+  private redactHeaders(headers: Headers): Record<string, string> {
+    const result: Record<string, string> = {};
+    headers.forEach((value, name) => {
+      result[name] = SECRET_HEADERS.includes(name.toLowerCase()) ? REDACTED : this.redactText(value);
+    });
+    return result;
+  }
+
+  /**
+   * Replace credential query parameters
+   */
+  private redactUrl(value: string): string {
+    const url = new URL(value);
+    for (const name of SECRET_PARAMS) {
+      if (url.searchParams.has(name)) {
+        url.searchParams.set(name, REDACTED);
+      }
+    }
+    return this.redactText(url.toString());
+  }
+
+  /**
+   * Remove configured secrets wherever they appear
+   */
+  private redactText(text: string): string {
+    return this.secrets
+      .filter(secret => secret.length >= 8)
+      .reduce((result, secret) => result.split(secret).join(REDACTED), text);
+  }
+}
+
+/**
+ * Create a fetch function for a provider according to its recording config
+ */
+export function createProviderFetch(
+  provider: string,
+  config: RecordingConfig,
+  secrets: Array<string | undefined> = []
+): typeof fetch {
+  const cassette = new HttpCassette(provider, config, secrets.filter((secret): secret is string => !!secret));
+  return cassette.createFetch();
+}
+
+/**
+ * JSON.stringify with sorted object keys
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
@@ -2,12 +2,14 @@ import { HfInference } from '@huggingface/inference';
 import { v4 as uuidv4 } from 'uuid';
 import sharp from 'sharp';
 import { BaseImageProvider } from './baseProvider.js';
+import { createProviderFetch } from './httpCassette.js';
 import { applyStyleToPrompt } from '../config/imageStyles.js';
 import type {
   ImageGenerationRequest,
   ImageGenerationResult,
   ImageDescriptionResult,
   ImageTaggingResult,
+  ImageTaggingOptions,
   HuggingFaceConfig,
   GeneratedImage,
   ImageTag,
@@ -17,15 +19,19 @@ import type {
  * HuggingFace provider for image generation using Stable Diffusion and other models
  */
 export class HuggingFaceProvider extends BaseImageProvider {
-  name = 'huggingface';
+  readonly type = 'huggingface';
+  name: string;
   private client: HfInference | null = null;
   private config: HuggingFaceConfig;
+  private fetch: typeof fetch;
 
-  constructor(config: HuggingFaceConfig) {
+  constructor(config: HuggingFaceConfig, name: string = 'huggingface') {
     super(config.timeout);
+    this.name = name;
     this.config = config;
+    this.fetch = createProviderFetch(this.name, config.recording, [config.apiKey]);
     
-    if (config.enabled && config.apiKey) {
+    if (config.enabled && this.getApiKey()) {
       this.initializeClient();
     }
   }
@@ -34,26 +40,27 @@ export class HuggingFaceProvider extends BaseImageProvider {
    * Initialize HuggingFace client
    */
   private initializeClient(): void {
-    if (!this.config.apiKey) {
+    const apiKey = this.getApiKey();
+    if (!apiKey) {
       throw this.createError('CONFIGURATION_ERROR', 'HuggingFace API key is required');
     }
 
-    this.client = new HfInference(this.config.apiKey);
+    this.client = new HfInference(apiKey, { fetch: this.fetch });
   }
 
   /**
    * Check if provider is available and configured
    */
   async isAvailable(): Promise<boolean> {
-    if (!this.config.enabled || !this.config.apiKey || !this.client) {
+    if (!this.config.enabled || !this.client) {
       return false;
     }
 
     try {
       // Test API connectivity by checking if model exists
-      const modelInfo = await fetch(`https://huggingface.co/api/models/${this.config.model}`, {
+      const modelInfo = await this.fetch(`https://huggingface.co/api/models/${this.config.model}`, {
         headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Authorization': `Bearer ${this.getApiKey()}`,
         },
       });
       return modelInfo.ok;
@@ -242,26 +249,35 @@ export class HuggingFaceProvider extends BaseImageProvider {
   }
 
   /**
-   * Tag image using classification models
+   * Tag image using a classification model, or zero-shot classification when candidate labels are given
    */
-  override async tagImage(imageUrl: string): Promise<ImageTaggingResult> {
+  override async tagImage(imageUrl: string, options: ImageTaggingOptions = {}): Promise<ImageTaggingResult> {
     if (!this.client) {
       throw this.createError('PROVIDER_NOT_CONFIGURED', 'HuggingFace provider is not configured');
     }
 
+    if (options.mode === 'detection') {
+      return this.detectObjects(imageUrl, options);
+    }
+
+    const labels = this.resolveCandidateLabels(options);
+    if (labels) {
+      return this.tagImageZeroShot(imageUrl, labels, options);
+    }
+
     return this.executeWithRetry(async () => {
       try {
         // Use image classification model
         const response = await this.client!.imageClassification({
           data: await this.downloadImage(imageUrl),
-          model: 'google/vit-base-patch16-224',
+          model: this.config.taggingModel,
         });
 
         if (!Array.isArray(response)) {
           throw this.createError('INVALID_RESPONSE', 'Invalid classification response');
         }
 
-        const tags: ImageTag[] = response.slice(0, 10).map((item: any) => ({
+        const tags: ImageTag[] = response.slice(0, options.maxTags || 10).map((item: any) => ({
           label: item.label || 'unknown',
           confidence: item.score || 0,
           category: this.categorizeTag(item.label),
@@ -279,6 +295,150 @@ export class HuggingFaceProvider extends BaseImageProvider {
     }, 'tag image');
   }
 
+  /**
+   * Locate objects with an object detection model; boxes are normalized to the image size
+   */
+  private async detectObjects(imageUrl: string, options: ImageTaggingOptions): Promise<ImageTaggingResult> {
+    return this.executeWithRetry(async () => {
+      try {
+        const image = await this.downloadImage(imageUrl);
+        const { width = 0, height = 0 } = await sharp(Buffer.from(image)).metadata();
+        if (!width || !height) {
+          throw this.createError('INVALID_REQUEST', 'Could not read image dimensions');
+        }
+
+        const response = await this.client!.objectDetection({
+          data: image,
+          model: this.config.detectionModel,
+        });
+
+        if (!Array.isArray(response)) {
+          throw this.createError('INVALID_RESPONSE', 'Invalid object detection response');
+        }
+
+        const clamp = (value: number) => Math.min(1, Math.max(0, value));
+        const tags: ImageTag[] = response
+          .filter(item => item?.box)
+          .map(item => {
+            const x = clamp(item.box.xmin / width);
+            const y = clamp(item.box.ymin / height);
+            return {
+              label: item.label || 'unknown',
+              confidence: item.score || 0,
+              category: this.categorizeTag(item.label || ''),
+              boundingBox: {
+                x,
+                y,
+                width: clamp(item.box.xmax / width) - x,
+                height: clamp(item.box.ymax / height) - y,
+              },
+            };
+          })
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, options.maxTags || 10);
+
+        return {
+          success: true,
+          tags,
+          provider: this.name,
+          imageDimensions: { width, height },
+        };
+
+      } catch (error: any) {
+        throw this.createError('TAGGING_FAILED', `Object detection failed: ${error.message}`, { error });
+      }
+    }, 'detect objects');
+  }
+
+  /**
+   * Score candidate labels with a CLIP-style zero-shot model
+   */
+  private async tagImageZeroShot(imageUrl: string, labels: string[], options: ImageTaggingOptions): Promise<ImageTaggingResult> {
+    // CLIP matches captions better than bare words, so each label goes through the hypothesis template
+    const template = this.config.hypothesisTemplate;
+    const hypotheses = new Map<string, string>(labels.map(label => [
+      template.includes('{}') ? template.split('{}').join(label) : `${template} ${label}`,
+      label,
+    ]));
+
+    return this.executeWithRetry(async () => {
+      try {
+        const response = await this.client!.zeroShotImageClassification({
+          model: this.config.zeroShotModel,
+          inputs: { image: await this.downloadImage(imageUrl) },
+          parameters: { candidate_labels: Array.from(hypotheses.keys()) },
+        });
+
+        if (!Array.isArray(response)) {
+          throw this.createError('INVALID_RESPONSE', 'Invalid zero-shot classification response');
+        }
+
+        const tags: ImageTag[] = response
+          .map(item => ({
+            label: hypotheses.get(item.label) ?? item.label,
+            confidence: this.calibrateZeroShotScore(item.score, labels.length),
+            ...(options.labelSet ? { category: options.labelSet } : {}),
+          }))
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, options.maxTags || 10);
+
+        return {
+          success: true,
+          tags,
+          provider: this.name,
+        };
+
+      } catch (error: any) {
+        throw this.createError('TAGGING_FAILED', `Zero-shot tagging failed: ${error.message}`, { error });
+      }
+    }, 'tag image');
+  }
+
+  /**
+   * Candidate labels from the request or a configured label set, deduplicated; null for plain classification
+   */
+  private resolveCandidateLabels(options: ImageTaggingOptions): string[] | null {
+    let labels = options.labels;
+
+    if (options.labelSet) {
+      const labelSet = this.config.labelSets[options.labelSet];
+      if (!labelSet) {
+        const known = Object.keys(this.config.labelSets);
+        throw this.createError(
+          'INVALID_REQUEST',
+          `Unknown label set "${options.labelSet}". Configured label sets: ${known.length > 0 ? known.join(', ') : 'none'}`
+        );
+      }
+      labels = [...(labels || []), ...labelSet];
+    }
+
+    if (!labels || labels.length === 0) {
+      return null;
+    }
+
+    const seen = new Set<string>();
+    return labels
+      .map(label => label.trim())
+      .filter(label => {
+        const key = label.toLowerCase();
+        if (!label || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Zero-shot scores are a softmax over the candidates, so they shrink as the label set grows.
+   * Rescale to lift over chance: 0 at or below 1/n, 1 for a certain match, comparable across label sets.
+   */
+  private calibrateZeroShotScore(score: number, labelCount: number): number {
+    if (labelCount <= 1) {
+      return Math.min(1, Math.max(0, score));
+    }
+    const lift = (score * labelCount - 1) / (labelCount - 1);
+    return Math.min(1, Math.max(0, lift));
+  }
+
   /**
    * Make image background transparent (for logos)
    */
@@ -327,7 +487,7 @@ export class HuggingFaceProvider extends BaseImageProvider {
    * Download image from URL
    */
   private async downloadImage(imageUrl: string): Promise<ArrayBuffer> {
-    const response = await fetch(imageUrl);
+    const response = await this.fetch(imageUrl);
     if (!response.ok) {
       throw this.createError('DOWNLOAD_FAILED', `Failed to download image: ${response.statusText}`);
     }
@@ -397,7 +557,7 @@ export class HuggingFaceProvider extends BaseImageProvider {
   /**
    * Check if provider supports feature
    */
-  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'transparency' | 'logo'): boolean {
+  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean {
     switch (feature) {
       case 'generation':
         return true;
@@ -405,6 +565,10 @@ export class HuggingFaceProvider extends BaseImageProvider {
         return true; // BLIP models
       case 'tagging':
         return true; // Classification models
+      case 'detection':
+        return true; // DETR-style object detection models
+      case 'zero-shot':
+        return true; // CLIP-style models scoring caller-supplied labels
       case 'transparency':
         return true; // PNG support with alpha
       case 'logo':
@@ -414,13 +578,21 @@ export class HuggingFaceProvider extends BaseImageProvider {
     }
   }
 
+  /**
+   * API key, or a placeholder when replaying recorded traffic without one
+   */
+  private getApiKey(): string | undefined {
+    return this.config.apiKey || (this.config.recording.mode === 'replay' ? 'replay' : undefined);
+  }
+
   /**
    * Update configuration
    */
   updateConfig(config: Partial<HuggingFaceConfig>): void {
     this.config = { ...this.config, ...config };
+    this.fetch = createProviderFetch(this.name, this.config.recording, [this.config.apiKey]);
     
-    if (this.config.enabled && this.config.apiKey) {
+    if (this.config.enabled && this.getApiKey()) {
       this.initializeClient();
     } else {
       this.client = null;
@@ -0,0 +1,555 @@
+import path from 'path';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseImageProvider } from './baseProvider.js';
+import { createProviderFetch } from './httpCassette.js';
+import { hasErrorCode } from './providerHealth.js';
+import type {
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  LocalDiffusionConfig,
+  GeneratedImage,
+} from '../types/index.js';
+
+/**
+ * Text-to-image workflow in ComfyUI API format, used when no workflow is configured.
+ * String values that are exactly `{{name}}` are replaced by the raw value, so numbers stay numbers.
+ */
+const DEFAULT_COMFY_WORKFLOW: Record<string, unknown> = {
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: '{{seed}}',
+      steps: '{{steps}}',
+      cfg: '{{cfg}}',
+      sampler_name: '{{sampler}}',
+      scheduler: '{{scheduler}}',
+      denoise: 1,
+      model: ['4', 0],
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0],
+    },
+  },
+  '4': {
+    class_type: 'CheckpointLoaderSimple',
+    inputs: { ckpt_name: '{{checkpoint}}' },
+  },
+  '5': {
+    class_type: 'EmptyLatentImage',
+    inputs: { width: '{{width}}', height: '{{height}}', batch_size: '{{batch_size}}' },
+  },
+  '6': {
+    class_type: 'CLIPTextEncode',
+    inputs: { text: '{{prompt}}', clip: ['4', 1] },
+  },
+  '7': {
+    class_type: 'CLIPTextEncode',
+    inputs: { text: '{{negative_prompt}}', clip: ['4', 1] },
+  },
+  '8': {
+    class_type: 'VAEDecode',
+    inputs: { samples: ['3', 0], vae: ['4', 2] },
+  },
+  '9': {
+    class_type: 'SaveImage',
+    inputs: { filename_prefix: 'image-for-me-dear-ai', images: ['8', 0] },
+  },
+};
+
+// The request never reached the server, so no job was queued
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH'];
+
+const DEFAULT_SAMPLERS = {
+  webui: 'Euler a',
+  comfyui: 'euler_ancestral',
+};
+
+/**
+ * Resolved generation parameters shared by both backends
+ */
+interface LocalGenerationParams {
+  prompt: string;
+  negativePrompt: string;
+  width: number;
+  height: number;
+  count: number;
+  seed: number;
+  sampler: string;
+  steps: number;
+  cfgScale: number;
+  checkpoint?: string | undefined;
+}
+
+/**
+ * Provider for self-hosted Stable Diffusion: Automatic1111 SD WebUI (`/sdapi/v1/txt2img`)
+ * or ComfyUI (`/prompt` with a workflow template)
+ */
+export class LocalDiffusionProvider extends BaseImageProvider {
+  readonly type = 'local';
+  name: string;
+  private config: LocalDiffusionConfig;
+  private fetch: typeof fetch;
+  private defaultCheckpoint: string | null = null;
+
+  constructor(config: LocalDiffusionConfig, name: string = 'local') {
+    super(config.timeout);
+    this.name = name;
+    this.config = config;
+    this.fetch = this.createFetch();
+  }
+
+  /**
+   * Check if provider is available and configured
+   */
+  async isAvailable(): Promise<boolean> {
+    if (!this.config.enabled) {
+      return false;
+    }
+
+    try {
+      const endpoint = this.config.backend === 'comfyui' ? '/system_stats' : '/sdapi/v1/sd-models';
+      const response = await this.request(endpoint);
+      return response.ok;
+    } catch (error) {
+      console.warn('Local diffusion provider not available:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Generate images with the configured backend
+   */
+  async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (!this.config.enabled) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Local diffusion provider is not enabled');
+    }
+
+    this.validateRequest(request);
+
+    const requestId = uuidv4();
+    const requested = request.dimensions || { width: 1024, height: 1024 };
+    const params: LocalGenerationParams = {
+      prompt: this.sanitizePrompt(request.prompt),
+      negativePrompt: request.negativePrompt || '',
+      // Latents are 1/8 of the image size
+      width: Math.max(64, Math.round(requested.width / 8) * 8),
+      height: Math.max(64, Math.round(requested.height / 8) * 8),
+      count: Math.min(request.count || 1, this.getMaxImageCount()),
+      seed: request.seed ?? Math.floor(Math.random() * 4294967295),
+      sampler: request.sampler || this.config.sampler || DEFAULT_SAMPLERS[this.config.backend],
+      steps: request.steps || this.config.steps,
+      cfgScale: request.cfgScale || this.config.cfgScale,
+      checkpoint: request.checkpoint || this.config.checkpoint,
+    };
+
+    // Not retried as a whole: a job that was queued keeps the GPU busy even when we stop waiting for it
+    const outputs = this.config.backend === 'comfyui'
+      ? await this.generateWithComfy(params)
+      : await this.generateWithWebUI(params);
+
+    const format = request.format || 'png';
+    const images: GeneratedImage[] = [];
+
+    for (const output of outputs) {
+      let buffer = output.buffer;
+      const needsResize = params.width !== requested.width || params.height !== requested.height;
+      if (needsResize || format !== 'png') {
+        let image = sharp(buffer);
+        if (needsResize) {
+          image = image.resize(requested.width, requested.height, { fit: 'cover' });
+        }
+        buffer = await image.toFormat(format).toBuffer();
+      }
+
+      const base64 = buffer.toString('base64');
+      images.push({
+        url: `data:image/${format};base64,${base64}`,
+        base64,
+        format,
+        dimensions: { width: requested.width, height: requested.height },
+        size: buffer.length,
+        metadata: {
+          prompt: params.prompt,
+          style: request.style || 'realistic',
+          provider: this.name,
+          generatedAt: new Date(),
+          model: output.checkpoint || params.checkpoint || this.config.backend,
+          seed: output.seed,
+        },
+      });
+    }
+
+    return {
+      success: true,
+      images,
+      provider: this.name,
+      requestId,
+    };
+  }
+
+  /**
+   * Run txt2img on an Automatic1111 SD WebUI started with --api
+   */
+  private async generateWithWebUI(params: LocalGenerationParams): Promise<Array<{ buffer: Buffer; seed: number; checkpoint?: string | undefined }>> {
+    const body: Record<string, unknown> = {
+      prompt: params.prompt,
+      negative_prompt: params.negativePrompt,
+      width: params.width,
+      height: params.height,
+      seed: params.seed,
+      sampler_name: params.sampler,
+      steps: params.steps,
+      cfg_scale: params.cfgScale,
+      batch_size: 1,
+      n_iter: params.count, // batch count: images are generated one after another
+      send_images: true,
+      save_images: false,
+    };
+
+    if (params.checkpoint) {
+      body.override_settings = { sd_model_checkpoint: params.checkpoint };
+      body.override_settings_restore_afterwards = true;
+    }
+
+    const response = await this.submit('/sdapi/v1/txt2img', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await this.readJson(response);
+
+    if (!Array.isArray(data?.images) || data.images.length === 0) {
+      throw this.createError('INVALID_RESPONSE', 'No images returned from SD WebUI');
+    }
+
+    // info is a JSON string with the seeds actually used
+    let seeds: number[] = [];
+    let checkpoint: string | undefined;
+    try {
+      const info = JSON.parse(data.info || '{}');
+      seeds = Array.isArray(info.all_seeds) ? info.all_seeds : [];
+      checkpoint = info.sd_model_name || undefined;
+    } catch {
+      // Older WebUI versions may not return info
+    }
+
+    return data.images.slice(0, params.count).map((image: string, index: number) => ({
+      buffer: Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64'),
+      seed: seeds[index] ?? params.seed + index,
+      checkpoint,
+    }));
+  }
+
+  /**
+   * Queue the workflow on ComfyUI, wait for it to finish and download its output images
+   */
+  private async generateWithComfy(params: LocalGenerationParams): Promise<Array<{ buffer: Buffer; seed: number; checkpoint?: string | undefined }>> {
+    const checkpoint = params.checkpoint
+      || await this.executeWithRetry(() => this.getComfyDefaultCheckpoint(), 'list checkpoints');
+    const workflow = this.fillWorkflow(await this.loadWorkflow(), {
+      prompt: params.prompt,
+      negative_prompt: params.negativePrompt,
+      width: params.width,
+      height: params.height,
+      batch_size: params.count,
+      seed: params.seed,
+      steps: params.steps,
+      cfg: params.cfgScale,
+      sampler: params.sampler,
+      scheduler: this.config.scheduler,
+      checkpoint,
+    });
+
+    const queued = await this.readJson(await this.submit('/prompt', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow, client_id: 'image-for-me-dear-ai' }),
+    }));
+
+    const promptId: string | undefined = queued?.prompt_id;
+    if (!promptId) {
+      throw this.createError('INVALID_RESPONSE', 'ComfyUI did not return a prompt id', { body: queued });
+    }
+
+    const entry = await this.waitForComfyHistory(promptId);
+    if (entry.status?.status_str === 'error') {
+      const message = (entry.status.messages || [])
+        .filter((item: any) => Array.isArray(item) && item[0] === 'execution_error')
+        .map((item: any) => item[1]?.exception_message)
+        .find(Boolean);
+      throw this.createError('API_ERROR', `ComfyUI workflow failed: ${message || 'unknown error'}`);
+    }
+
+    const files = Object.values(entry.outputs || {})
+      .flatMap((output: any) => Array.isArray(output?.images) ? output.images : [])
+      .filter((image: any) => image?.filename && (image.type || 'output') === 'output');
+
+    if (files.length === 0) {
+      throw this.createError('INVALID_RESPONSE', 'ComfyUI workflow produced no output images (does it end in a SaveImage node?)');
+    }
+
+    const results = [];
+    for (const file of files.slice(0, params.count)) {
+      const query = new URLSearchParams({ filename: file.filename, subfolder: file.subfolder || '', type: file.type || 'output' });
+      const response = await this.request(`/view?${query}`);
+      if (!response.ok) {
+        throw await this.createResponseError(response);
+      }
+      results.push({ buffer: Buffer.from(await response.arrayBuffer()), seed: params.seed, checkpoint });
+    }
+
+    return results;
+  }
+
+  /**
+   * Poll ComfyUI history until the prompt has finished or `timeout` has passed since it was queued
+   */
+  private async waitForComfyHistory(promptId: string): Promise<any> {
+    const deadline = Date.now() + this.timeout;
+
+    while (Date.now() < deadline) {
+      let history: any;
+      try {
+        // A hanging poll must not outlast the deadline
+        history = await this.readJson(await this.request(`/history/${encodeURIComponent(promptId)}`, {
+          signal: AbortSignal.timeout(Math.max(1, deadline - Date.now())),
+        }));
+      } catch (error) {
+        if (Date.now() < deadline) {
+          throw error;
+        }
+        break;
+      }
+
+      const entry = history?.[promptId];
+      if (entry && (entry.status?.completed || entry.status?.status_str === 'error' || entry.outputs && Object.keys(entry.outputs).length > 0)) {
+        return entry;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.config.pollInterval));
+    }
+
+    throw this.createError('TIMEOUT', `ComfyUI prompt ${promptId} did not finish within ${this.timeout}ms`);
+  }
+
+  /**
+   * First checkpoint known to ComfyUI, used when none is configured
+   */
+  private async getComfyDefaultCheckpoint(): Promise<string> {
+    if (!this.defaultCheckpoint) {
+      const checkpoints = await this.readJson(await this.request('/models/checkpoints'));
+      if (!Array.isArray(checkpoints) || typeof checkpoints[0] !== 'string') {
+        throw this.createError('PROVIDER_NOT_CONFIGURED', 'No checkpoint configured and ComfyUI reported no checkpoints');
+      }
+      this.defaultCheckpoint = checkpoints[0];
+    }
+
+    return this.defaultCheckpoint;
+  }
+
+  /**
+   * Load the configured workflow template (inline object, JSON string or file path)
+   */
+  private async loadWorkflow(): Promise<Record<string, unknown>> {
+    const { workflow } = this.config;
+
+    if (!workflow) {
+      return DEFAULT_COMFY_WORKFLOW;
+    }
+
+    if (typeof workflow === 'object') {
+      return workflow;
+    }
+
+    try {
+      return workflow.trim().startsWith('{')
+        ? JSON.parse(workflow)
+        : await fs.readJson(path.resolve(process.cwd(), workflow));
+    } catch (error: any) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', `Failed to load ComfyUI workflow: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Replace `{{name}}` placeholders throughout the workflow
+   */
+  private fillWorkflow(value: unknown, values: Record<string, string | number>): unknown {
+    if (typeof value === 'string') {
+      const exact = value.match(/^\{\{(\w+)\}\}$/);
+      if (exact && exact[1] && exact[1] in values) {
+        return values[exact[1]];
+      }
+      return value.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+        name in values ? String(values[name]) : match
+      );
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.fillWorkflow(item, values));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.fillWorkflow(item, values)])
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Send a request that starts a job. Only retried when the server could not be reached:
+   * once a request got through, the job may be queued and a retry would run it again.
+   */
+  private submit(endpoint: string, init: RequestInit): Promise<Response> {
+    return this.executeWithRetry(
+      () => this.request(endpoint, init),
+      `submit ${endpoint}`,
+      error => hasErrorCode(error, CONNECTION_ERROR_CODES)
+    );
+  }
+
+  /**
+   * Send a request to the local server
+   */
+  private async request(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.config.auth) {
+      headers.set('Authorization', `Basic ${Buffer.from(this.config.auth).toString('base64')}`);
+    }
+
+    try {
+      return await this.fetch(`${this.config.baseUrl.replace(/\/+$/, '')}${endpoint}`, { ...init, headers });
+    } catch (error: any) {
+      if (error?.code === 'REPLAY_MISS') {
+        throw error;
+      }
+      throw this.createError(
+        'NETWORK_ERROR',
+        `Cannot reach ${this.config.backend} at ${this.config.baseUrl}: ${error.message}`,
+        { error }
+      );
+    }
+  }
+
+  /**
+   * Parse a JSON response, mapping HTTP errors
+   */
+  private async readJson(response: Response): Promise<any> {
+    if (!response.ok) {
+      throw await this.createResponseError(response);
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw this.createError('INVALID_RESPONSE', `Invalid JSON from ${this.config.backend}`, { error });
+    }
+  }
+
+  /**
+   * Map an error response to a provider error
+   */
+  private async createResponseError(response: Response) {
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Non-JSON error body
+    }
+
+    const detail = body?.error?.message || body?.error || body?.detail || response.statusText;
+
+    switch (response.status) {
+      case 400:
+      case 422:
+        return this.createError('INVALID_REQUEST', `${this.config.backend} rejected the request: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`, { body });
+      case 401:
+      case 403:
+        return this.createError('AUTHENTICATION_FAILED', `${this.config.backend} rejected the credentials, check auth`);
+      case 404:
+        return this.createError(
+          'PROVIDER_NOT_CONFIGURED',
+          this.config.backend === 'webui'
+            ? 'SD WebUI API not found, start the WebUI with --api'
+            : `ComfyUI endpoint not found: ${response.url}`
+        );
+      default:
+        return this.createError('API_ERROR', `${this.config.backend} error ${response.status}: ${detail}`, { body });
+    }
+  }
+
+  /**
+   * Build the fetch function, redacting basic auth credentials from recordings
+   */
+  private createFetch(): typeof fetch {
+    const { auth } = this.config;
+    return createProviderFetch(this.name, this.config.recording, auth ? [auth, Buffer.from(auth).toString('base64')] : []);
+  }
+
+  /**
+   * Get supported formats
+   */
+  override getSupportedFormats(): string[] {
+    return ['png', 'jpeg', 'webp'];
+  }
+
+  /**
+   * Get supported dimensions (common SD 1.5 and SDXL sizes)
+   */
+  override getSupportedDimensions(): { width: number; height: number }[] {
+    return [
+      { width: 512, height: 512 },
+      { width: 768, height: 768 },
+      { width: 1024, height: 1024 },
+      { width: 1152, height: 896 },
+      { width: 896, height: 1152 },
+      { width: 1344, height: 768 },
+      { width: 768, height: 1344 },
+    ];
+  }
+
+  /**
+   * Get maximum image count
+   */
+  override getMaxImageCount(): number {
+    return 8;
+  }
+
+  /**
+   * Check if provider supports feature
+   */
+  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean {
+    switch (feature) {
+      case 'generation':
+        return true;
+      case 'description':
+      case 'tagging':
+        return false;
+      case 'transparency':
+      case 'logo':
+        return false; // Stable Diffusion outputs have no alpha channel
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<LocalDiffusionConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.fetch = this.createFetch();
+    this.defaultCheckpoint = null;
+  }
+
+  /**
+   * Get current configuration (without sensitive data)
+   */
+  getConfig(): Omit<LocalDiffusionConfig, 'auth'> {
+    const { auth, ...safeConfig } = this.config;
+    return safeConfig;
+  }
+}
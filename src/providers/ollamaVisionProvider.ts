@@ -0,0 +1,320 @@
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { BaseImageProvider } from './baseProvider.js';
+import { createProviderFetch } from './httpCassette.js';
+import { buildDescribePrompt } from '../config/descriptionPrompts.js';
+import type {
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageDescriptionResult,
+  ImageDescriptionOptions,
+  ImageTaggingResult,
+  ImageTag,
+  OllamaConfig,
+} from '../types/index.js';
+
+// Same categories the tag_image tool filters on
+const TAG_CATEGORIES = [
+  'objects', 'animals', 'people', 'places', 'activities',
+  'food', 'vehicles', 'nature', 'technology', 'art',
+];
+
+/**
+ * JSON schema passed as Ollama's `format`, so tags come back as structured output
+ */
+const TAG_SCHEMA = {
+  type: 'object',
+  properties: {
+    tags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          confidence: { type: 'number' },
+          category: { type: 'string', enum: TAG_CATEGORIES },
+        },
+        required: ['label', 'confidence', 'category'],
+      },
+    },
+  },
+  required: ['tags'],
+};
+
+const TAG_PROMPT =
+  'List up to 15 tags for this image: objects, animals, people, places, activities, food, vehicles, nature, technology and art style that are visible. ' +
+  `Use short lowercase labels, a confidence between 0 and 1, and one category from: ${TAG_CATEGORIES.join(', ')}. ` +
+  'Respond with JSON only.';
+
+/**
+ * Vision-only provider backed by a local Ollama server running a multimodal model (llava, moondream, ...).
+ * Images are sent to the configured endpoint only, so they stay on the local network.
+ */
+export class OllamaVisionProvider extends BaseImageProvider {
+  readonly type = 'ollama';
+  name: string;
+  private config: OllamaConfig;
+  private fetch: typeof fetch;
+
+  constructor(config: OllamaConfig, name: string = 'ollama') {
+    super(config.timeout);
+    this.name = name;
+    this.config = config;
+    this.fetch = createProviderFetch(this.name, config.recording);
+  }
+
+  /**
+   * Check if the server is reachable and the model is pulled
+   */
+  async isAvailable(): Promise<boolean> {
+    if (!this.config.enabled) {
+      return false;
+    }
+
+    try {
+      const response = await this.fetch(`${this.getBaseUrl()}/api/tags`);
+      if (!response.ok) {
+        return false;
+      }
+
+      const data: any = await response.json();
+      const wanted = this.config.model.includes(':') ? this.config.model : `${this.config.model}:latest`;
+      return Array.isArray(data?.models) &&
+        data.models.some((model: any) => model?.name === wanted || model?.model === wanted);
+    } catch (error) {
+      console.warn('Ollama provider not available:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Ollama vision models cannot generate images
+   */
+  async generateImage(_request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    throw this.createError('IMAGE_GENERATION_NOT_SUPPORTED', 'Ollama provider only supports image description and tagging');
+  }
+
+  /**
+   * Describe image with the vision model
+   */
+  override async describeImage(imageUrl: string, options: ImageDescriptionOptions = {}): Promise<ImageDescriptionResult> {
+    if (!this.config.enabled) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Ollama provider is not enabled');
+    }
+
+    const image = await this.loadImage(imageUrl);
+
+    return this.executeWithRetry(async () => {
+      const content = await this.chat(buildDescribePrompt(options), image);
+      const description = content.trim();
+
+      if (!description) {
+        throw this.createError('INVALID_RESPONSE', 'No description in response');
+      }
+
+      return {
+        success: true,
+        description,
+        confidence: 0.8,
+        provider: this.name,
+      };
+    }, 'describe image');
+  }
+
+  /**
+   * Tag image with the vision model using structured JSON output
+   */
+  override async tagImage(imageUrl: string): Promise<ImageTaggingResult> {
+    if (!this.config.enabled) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Ollama provider is not enabled');
+    }
+
+    const image = await this.loadImage(imageUrl);
+
+    return this.executeWithRetry(async () => {
+      const content = await this.chat(TAG_PROMPT, image, TAG_SCHEMA);
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(content);
+      } catch (error) {
+        throw this.createError('INVALID_RESPONSE', 'Model did not return valid JSON tags', { content });
+      }
+
+      if (!Array.isArray(parsed?.tags)) {
+        throw this.createError('INVALID_RESPONSE', 'Invalid tagging response', { content });
+      }
+
+      // Small models sometimes repeat labels or step outside the schema
+      const seen = new Set<string>();
+      const tags: ImageTag[] = [];
+      for (const item of parsed.tags) {
+        const label = typeof item?.label === 'string' ? item.label.trim().toLowerCase() : '';
+        if (!label || seen.has(label)) continue;
+        seen.add(label);
+
+        const confidence = Number(item.confidence);
+        tags.push({
+          label,
+          confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+          ...(TAG_CATEGORIES.includes(item.category) ? { category: item.category } : {}),
+        });
+      }
+
+      return {
+        success: true,
+        tags,
+        provider: this.name,
+      };
+    }, 'tag image');
+  }
+
+  /**
+   * Send a single-turn chat with one image
+   */
+  private async chat(prompt: string, image: string, format?: Record<string, unknown>): Promise<string> {
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: [{ role: 'user', content: prompt, images: [image] }],
+      stream: false,
+      options: { temperature: this.config.temperature },
+    };
+    if (format) {
+      body.format = format;
+    }
+    if (this.config.keepAlive) {
+      body.keep_alive = this.config.keepAlive;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetch(`${this.getBaseUrl()}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    } catch (error: any) {
+      if (error?.code === 'REPLAY_MISS') {
+        throw error;
+      }
+      throw this.createError('NETWORK_ERROR', `Cannot reach Ollama at ${this.config.baseUrl}: ${error.message}`, { error });
+    }
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        detail = (await response.json())?.error || detail;
+      } catch {
+        // Non-JSON error body
+      }
+
+      if (response.status === 404) {
+        throw this.createError('PROVIDER_NOT_CONFIGURED', `Ollama model ${this.config.model} not found, run "ollama pull ${this.config.model}": ${detail}`);
+      }
+      if (response.status === 400) {
+        throw this.createError('INVALID_REQUEST', `Ollama rejected the request: ${detail}`);
+      }
+      throw this.createError('API_ERROR', `Ollama error ${response.status}: ${detail}`);
+    }
+
+    const data: any = await response.json();
+    if (typeof data?.message?.content !== 'string') {
+      throw this.createError('INVALID_RESPONSE', 'No message in Ollama response');
+    }
+
+    return data.message.content;
+  }
+
+  /**
+   * Load an image (URL, data URL or local file) as base64 PNG, scaled down to the configured size
+   */
+  private async loadImage(imageUrl: string): Promise<string> {
+    let data: Buffer;
+
+    try {
+      if (imageUrl.startsWith('data:')) {
+        data = Buffer.from(imageUrl.slice(imageUrl.indexOf(',') + 1), 'base64');
+      } else if (imageUrl.startsWith('file://')) {
+        data = await fs.readFile(new URL(imageUrl));
+      } else if (!/^[a-z]+:/i.test(imageUrl)) {
+        data = await fs.readFile(imageUrl);
+      } else {
+        const response = await fetch(imageUrl);
+        if (!response.ok) {
+          throw new Error(response.statusText);
+        }
+        data = Buffer.from(await response.arrayBuffer());
+      }
+
+      // Vision encoders work on small inputs, there is no point shipping full-size images
+      const converted = await sharp(data)
+        .resize(this.config.maxImageSize, this.config.maxImageSize, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer();
+
+      return converted.toString('base64');
+    } catch (error: any) {
+      throw this.createError('DOWNLOAD_FAILED', `Failed to load image: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Base URL without trailing slash
+   */
+  private getBaseUrl(): string {
+    return this.config.baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Get supported formats
+   */
+  override getSupportedFormats(): string[] {
+    return [];
+  }
+
+  /**
+   * Get supported dimensions
+   */
+  override getSupportedDimensions(): { width: number; height: number }[] {
+    return [];
+  }
+
+  /**
+   * Get maximum image count
+   */
+  override getMaxImageCount(): number {
+    return 0;
+  }
+
+  /**
+   * Check if provider supports feature
+   */
+  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean {
+    switch (feature) {
+      case 'description':
+      case 'tagging':
+        return true;
+      case 'generation':
+      case 'transparency':
+      case 'logo':
+        return false; // Vision only
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<OllamaConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.fetch = createProviderFetch(this.name, this.config.recording);
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): OllamaConfig {
+    return this.config;
+  }
+}
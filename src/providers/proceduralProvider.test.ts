@@ -0,0 +1,30 @@
+import { ProceduralProvider } from './proceduralProvider.js';
+
+describe('ProceduralProvider', () => {
+  const provider = new ProceduralProvider({ enabled: true, timeout: 30000 });
+  const request = { prompt: 'a lighthouse at dusk', dimensions: { width: 128, height: 96 } };
+
+  it('renders the same image for the same seed', async () => {
+    const first = await provider.generateImage({ ...request, seed: 42 });
+    const second = await provider.generateImage({ ...request, seed: 42 });
+
+    expect(first.images[0]?.base64).toBeDefined();
+    expect(second.images[0]?.base64).toBe(first.images[0]?.base64);
+    expect(second.images[0]?.metadata.seed).toBe(42);
+  });
+
+  it('renders different images for different seeds', async () => {
+    const first = await provider.generateImage({ ...request, seed: 1 });
+    const second = await provider.generateImage({ ...request, seed: 2 });
+
+    expect(second.images[0]?.base64).not.toBe(first.images[0]?.base64);
+  });
+
+  it('derives the seed from the prompt when none is given', async () => {
+    const first = await provider.generateImage(request);
+    const second = await provider.generateImage(request);
+
+    expect(second.images[0]?.base64).toBe(first.images[0]?.base64);
+    expect(first.images[0]?.dimensions).toEqual({ width: 128, height: 96 });
+  });
+});
@@ -0,0 +1,503 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { BaseImageProvider } from './baseProvider.js';
+import type {
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageDescriptionResult,
+  ImageTaggingResult,
+  ProceduralConfig,
+  GeneratedImage,
+  ImageTag,
+  ImageStyle,
+} from '../types/index.js';
+
+/**
+ * Pseudo random number generator (mulberry32), deterministic for a given seed
+ */
+type Random = () => number;
+
+/**
+ * Hue range and saturation/lightness used to pick colors for a style
+ */
+interface Palette {
+  hues: [number, number];
+  saturation: [number, number];
+  lightness: [number, number];
+}
+
+const DEFAULT_PALETTE: Palette = { hues: [0, 360], saturation: [45, 85], lightness: [35, 70] };
+
+const STYLE_PALETTES: Partial<Record<ImageStyle, Palette>> = {
+  sketch: { hues: [0, 360], saturation: [0, 0], lightness: [15, 90] },
+  minimalist: { hues: [190, 230], saturation: [10, 35], lightness: [55, 90] },
+  cyberpunk: { hues: [280, 340], saturation: [80, 100], lightness: [40, 60] },
+  steampunk: { hues: [20, 45], saturation: [40, 70], lightness: [25, 55] },
+  vintage: { hues: [25, 55], saturation: [20, 45], lightness: [45, 75] },
+  watercolor: { hues: [170, 260], saturation: [30, 60], lightness: [65, 85] },
+  'pop-art': { hues: [0, 360], saturation: [90, 100], lightness: [45, 55] },
+  realistic: { hues: [80, 220], saturation: [20, 50], lightness: [30, 65] },
+  photographic: { hues: [80, 220], saturation: [20, 50], lightness: [30, 65] },
+};
+
+/**
+ * Offline provider that renders abstract images locally with sharp.
+ * Output is derived from a hash of the prompt, style and seed, so the same request always
+ * produces the same pixels. Meant for development, CI and demos without API keys.
+ */
+export class ProceduralProvider extends BaseImageProvider {
+  readonly type = 'procedural';
+  name: string;
+  private config: ProceduralConfig;
+
+  constructor(config: ProceduralConfig, name: string = 'procedural') {
+    super(config.timeout);
+    this.name = name;
+    this.config = config;
+  }
+
+  /**
+   * Always available when enabled, no network required
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.config.enabled;
+  }
+
+  /**
+   * Render gradients, shapes and the prompt text
+   */
+  async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    this.validateRequest(request);
+
+    const requestId = uuidv4();
+    const prompt = this.sanitizePrompt(request.prompt);
+    const dimensions = request.dimensions || { width: 1024, height: 1024 };
+    const format = request.format || 'png';
+    const count = Math.min(request.count || 1, this.getMaxImageCount());
+    const baseSeed = request.seed ?? this.hashSeed(`${prompt}|${request.style || ''}|${request.negativePrompt || ''}`);
+
+    try {
+      const images: GeneratedImage[] = [];
+
+      for (let index = 0; index < count; index++) {
+        const seed = (baseSeed + index) >>> 0;
+        const svg = this.renderSvg(prompt, request, dimensions, seed);
+        const buffer = await this.encode(sharp(Buffer.from(svg)), format, !!request.transparent);
+        const base64 = buffer.toString('base64');
+
+        images.push({
+          url: `data:image/${format};base64,${base64}`,
+          base64,
+          format,
+          dimensions,
+          size: buffer.length,
+          metadata: {
+            prompt,
+            style: request.style || 'abstract',
+            provider: this.name,
+            generatedAt: new Date(),
+            model: 'procedural-svg',
+            seed,
+          },
+        });
+      }
+
+      return {
+        success: true,
+        images,
+        provider: this.name,
+        requestId,
+      };
+    } catch (error: any) {
+      throw this.createError('GENERATION_FAILED', `Procedural rendering failed: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Describe an image from its statistics (size, brightness, dominant color, transparency)
+   */
+  override async describeImage(imageUrl: string): Promise<ImageDescriptionResult> {
+    const stats = await this.analyzeImage(imageUrl);
+
+    const parts = [
+      `A ${stats.orientation} ${stats.width}x${stats.height} ${stats.format} image`,
+      `dominated by ${stats.dominantColor} tones`,
+      `with ${stats.brightness} overall brightness and ${stats.contrast} contrast`,
+    ];
+
+    let description = parts.join(' ');
+    if (stats.transparentRatio > 0.05) {
+      description += `; about ${Math.round(stats.transparentRatio * 100)}% of the image is transparent`;
+    }
+
+    return {
+      success: true,
+      description: `${description}.`,
+      confidence: 0.5,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Tag an image from its statistics
+   */
+  override async tagImage(imageUrl: string): Promise<ImageTaggingResult> {
+    const stats = await this.analyzeImage(imageUrl);
+
+    const tags: ImageTag[] = [
+      { label: stats.dominantColor, confidence: stats.dominantShare, category: 'color' },
+      { label: stats.brightness, confidence: 0.9, category: 'lighting' },
+      { label: `${stats.contrast} contrast`, confidence: 0.8, category: 'lighting' },
+      { label: stats.orientation, confidence: 1, category: 'composition' },
+      { label: stats.format, confidence: 1, category: 'format' },
+    ];
+
+    if (stats.transparentRatio > 0.05) {
+      tags.push({ label: 'transparent', confidence: Math.min(1, stats.transparentRatio * 2), category: 'format' });
+    }
+    if (stats.grayscale) {
+      tags.push({ label: 'monochrome', confidence: 0.9, category: 'color' });
+    }
+
+    return {
+      success: true,
+      tags,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Build the SVG scene for one image
+   */
+  private renderSvg(
+    prompt: string,
+    request: ImageGenerationRequest,
+    dimensions: { width: number; height: number },
+    seed: number
+  ): string {
+    const random = this.createRandom(seed);
+    const palette = (request.style && STYLE_PALETTES[request.style]) || DEFAULT_PALETTE;
+    const color = () => this.pickColor(random, palette);
+    const { width, height } = dimensions;
+    const size = Math.min(width, height);
+
+    const elements: string[] = [];
+
+    if (!request.transparent) {
+      const angle = Math.floor(random() * 360);
+      elements.push(
+        `<defs><linearGradient id="bg" gradientTransform="rotate(${angle} 0.5 0.5)">` +
+        `<stop offset="0" stop-color="${color()}"/><stop offset="1" stop-color="${color()}"/>` +
+        '</linearGradient></defs>',
+        `<rect width="${width}" height="${height}" fill="url(#bg)"/>`
+      );
+    }
+
+    const shapeCount = 4 + Math.floor(random() * 6);
+    for (let i = 0; i < shapeCount; i++) {
+      const x = Math.round(random() * width);
+      const y = Math.round(random() * height);
+      const extent = Math.round(size * (0.08 + random() * 0.3));
+      const opacity = (0.35 + random() * 0.55).toFixed(2);
+      const fill = color();
+
+      switch (Math.floor(random() * 3)) {
+        case 0:
+          elements.push(`<circle cx="${x}" cy="${y}" r="${extent}" fill="${fill}" fill-opacity="${opacity}"/>`);
+          break;
+        case 1: {
+          const rotation = Math.floor(random() * 90);
+          elements.push(
+            `<rect x="${x - extent}" y="${y - extent}" width="${extent * 2}" height="${extent * 2}" ` +
+            `rx="${Math.round(extent * random() * 0.5)}" fill="${fill}" fill-opacity="${opacity}" ` +
+            `transform="rotate(${rotation} ${x} ${y})"/>`
+          );
+          break;
+        }
+        default: {
+          const points = [0, 1, 2]
+            .map(() => `${Math.round(x + (random() - 0.5) * extent * 2)},${Math.round(y + (random() - 0.5) * extent * 2)}`)
+            .join(' ');
+          elements.push(`<polygon points="${points}" fill="${fill}" fill-opacity="${opacity}"/>`);
+        }
+      }
+    }
+
+    const fontSize = Math.max(10, Math.round(size / 24));
+    const lines = this.wrapText(prompt, Math.max(10, Math.floor(width / (fontSize * 0.6))), 3);
+    lines.forEach((line, index) => {
+      const y = height - fontSize * (lines.length - index) - Math.round(fontSize / 2);
+      elements.push(
+        `<text x="${Math.round(fontSize / 2)}" y="${y + fontSize}" font-family="sans-serif" font-size="${fontSize}" ` +
+        `fill="#ffffff" stroke="#000000" stroke-opacity="0.4" stroke-width="${Math.max(1, Math.round(fontSize / 16))}" ` +
+        `paint-order="stroke">${this.escapeXml(line)}</text>`
+      );
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${elements.join('')}</svg>`;
+  }
+
+  /**
+   * Encode the rendered scene in the requested format
+   */
+  private async encode(image: sharp.Sharp, format: string, transparent: boolean): Promise<Buffer> {
+    switch (format) {
+      case 'jpeg':
+        return image.flatten({ background: '#ffffff' }).jpeg({ quality: 90 }).toBuffer();
+      case 'webp':
+        return image.webp({ quality: 90, alphaQuality: transparent ? 100 : 0 }).toBuffer();
+      default:
+        return image.png().toBuffer();
+    }
+  }
+
+  /**
+   * Collect basic statistics about an image
+   */
+  private async analyzeImage(imageUrl: string): Promise<{
+    width: number;
+    height: number;
+    format: string;
+    orientation: string;
+    brightness: string;
+    contrast: string;
+    dominantColor: string;
+    dominantShare: number;
+    transparentRatio: number;
+    grayscale: boolean;
+  }> {
+    try {
+      const data = await this.loadImage(imageUrl);
+      const image = sharp(data);
+      const metadata = await image.metadata();
+      const stats = await image.stats();
+
+      const [r, g, b, alpha] = stats.channels;
+      const mean = (r?.mean ?? 0) * 0.299 + (g?.mean ?? r?.mean ?? 0) * 0.587 + (b?.mean ?? r?.mean ?? 0) * 0.114;
+      const deviation = ((r?.stdev ?? 0) + (g?.stdev ?? 0) + (b?.stdev ?? 0)) / 3;
+
+      const width = metadata.width || 0;
+      const height = metadata.height || 0;
+      const orientation = width > height * 1.1 ? 'landscape' : height > width * 1.1 ? 'portrait' : 'square';
+
+      // Share of fully transparent pixels, from a small sample
+      let transparentRatio = 0;
+      if (metadata.hasAlpha && alpha) {
+        const { data: pixels, info } = await sharp(data)
+          .resize(64, 64, { fit: 'fill' })
+          .ensureAlpha()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+
+        let transparent = 0;
+        for (let i = info.channels - 1; i < pixels.length; i += info.channels) {
+          if ((pixels[i] ?? 255) < 16) transparent++;
+        }
+        transparentRatio = transparent / (info.width * info.height);
+      }
+
+      const { name, share, neutralShare } = await this.getDominantColor(data);
+
+      return {
+        width,
+        height,
+        format: metadata.format || 'unknown',
+        orientation,
+        brightness: mean < 70 ? 'dark' : mean > 185 ? 'bright' : 'balanced',
+        contrast: deviation < 30 ? 'low' : deviation > 70 ? 'high' : 'medium',
+        dominantColor: name,
+        dominantShare: share,
+        transparentRatio,
+        grayscale: neutralShare > 0.95,
+      };
+    } catch (error: any) {
+      if (error?.name === 'ProviderError') throw error;
+      throw this.createError('INVALID_REQUEST', `Could not analyze image: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Find the most common named hue in a downscaled copy of the image
+   */
+  private async getDominantColor(data: Buffer): Promise<{ name: string; share: number; neutralShare: number }> {
+    const { data: pixels, info } = await sharp(data)
+      .resize(32, 32, { fit: 'fill' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const counts = new Map<string, number>();
+    let total = 0;
+
+    for (let i = 0; i < pixels.length; i += info.channels) {
+      if ((pixels[i + 3] ?? 255) < 16) continue;
+
+      const name = this.nameColor(pixels[i] ?? 0, pixels[i + 1] ?? 0, pixels[i + 2] ?? 0);
+      counts.set(name, (counts.get(name) || 0) + 1);
+      total++;
+    }
+
+    let best = { name: 'transparent', count: 0 };
+    for (const [name, count] of counts) {
+      if (count > best.count) best = { name, count };
+    }
+
+    const neutral = ['black', 'white', 'gray'].reduce((sum, name) => sum + (counts.get(name) || 0), 0);
+
+    return {
+      name: best.name,
+      share: total > 0 ? Number((best.count / total).toFixed(2)) : 1,
+      neutralShare: total > 0 ? neutral / total : 1,
+    };
+  }
+
+  /**
+   * Map an RGB color to a coarse color name
+   */
+  private nameColor(r: number, g: number, b: number): string {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const lightness = (max + min) / 510;
+    const saturation = max === min ? 0 : (max - min) / (255 - Math.abs(max + min - 255));
+
+    if (lightness < 0.15) return 'black';
+    if (lightness > 0.9) return 'white';
+    if (saturation < 0.15) return 'gray';
+
+    let hue: number;
+    if (max === r) hue = ((g - b) / (max - min)) % 6;
+    else if (max === g) hue = (b - r) / (max - min) + 2;
+    else hue = (r - g) / (max - min) + 4;
+    hue = (hue * 60 + 360) % 360;
+
+    if (hue < 15 || hue >= 345) return 'red';
+    if (hue < 45) return lightness < 0.4 ? 'brown' : 'orange';
+    if (hue < 70) return 'yellow';
+    if (hue < 165) return 'green';
+    if (hue < 200) return 'cyan';
+    if (hue < 255) return 'blue';
+    if (hue < 290) return 'purple';
+    return 'pink';
+  }
+
+  /**
+   * Load image bytes from a URL, data URL or local file path
+   */
+  private async loadImage(imageUrl: string): Promise<Buffer> {
+    if (imageUrl.startsWith('file://')) {
+      return fs.readFile(new URL(imageUrl));
+    }
+    if (!/^[a-z]+:/i.test(imageUrl)) {
+      return fs.readFile(imageUrl);
+    }
+
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw this.createError('DOWNLOAD_FAILED', `Failed to download image: ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Pick an HSL color from a palette
+   */
+  private pickColor(random: Random, palette: Palette): string {
+    const between = ([min, max]: [number, number]) => Math.round(min + random() * (max - min));
+    return `hsl(${between(palette.hues) % 360}, ${between(palette.saturation)}%, ${between(palette.lightness)}%)`;
+  }
+
+  /**
+   * Derive a 32-bit seed from text
+   */
+  private hashSeed(text: string): number {
+    return createHash('sha256').update(text).digest().readUInt32BE(0);
+  }
+
+  /**
+   * Create a seeded random number generator
+   */
+  private createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Split text into at most `maxLines` lines
+   */
+  private wrapText(text: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(' ')) {
+      if (current && (current.length + word.length + 1) > maxChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) lines.push(current);
+
+    if (lines.length > maxLines) {
+      const kept = lines.slice(0, maxLines);
+      kept[maxLines - 1] = `${kept[maxLines - 1]!.slice(0, Math.max(0, maxChars - 1))}…`;
+      return kept;
+    }
+
+    return lines;
+  }
+
+  /**
+   * Escape text for use inside SVG
+   */
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Get supported formats
+   */
+  override getSupportedFormats(): string[] {
+    return ['png', 'jpeg', 'webp'];
+  }
+
+  /**
+   * Any dimension within the validated range can be rendered
+   */
+  override getSupportedDimensions(): { width: number; height: number }[] {
+    return [
+      { width: 512, height: 512 },
+      { width: 1024, height: 1024 },
+      { width: 1792, height: 1024 },
+      { width: 1024, height: 1792 },
+      { width: 1200, height: 630 },
+    ];
+  }
+
+  /**
+   * Get maximum image count
+   */
+  override getMaxImageCount(): number {
+    return 10;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ProceduralConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,192 @@
+import type { ImageProvider, HealthConfig, ProviderHealth } from '../types/index.js';
+
+// Caused by the request (or a feature the provider lacks), says nothing about the provider's health
+const REQUEST_ERROR_CODES = [
+  'INVALID_REQUEST',
+  'CONTENT_POLICY_VIOLATION',
+  'REPLAY_MISS',
+  'IMAGE_GENERATION_NOT_SUPPORTED',
+  'IMAGE_DESCRIPTION_NOT_SUPPORTED',
+  'IMAGE_TAGGING_NOT_SUPPORTED',
+];
+
+// Won't recover without a configuration change, mark down right away
+const CONFIGURATION_ERROR_CODES = ['AUTHENTICATION_FAILED', 'PERMISSION_DENIED', 'QUOTA_EXCEEDED', 'PROVIDER_NOT_CONFIGURED'];
+
+/**
+ * Whether an error or one it wraps has one of the codes (provider errors keep the original in details, SDKs in cause)
+ */
+export function hasErrorCode(error: any, codes: string[]): boolean {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    if (codes.includes(current.code)) {
+      return true;
+    }
+    current = current.details?.error || current.cause;
+  }
+  return false;
+}
+
+/**
+ * Whether a failure was caused by the request rather than the provider
+ */
+export function isRequestError(error: any): boolean {
+  return hasErrorCode(error, REQUEST_ERROR_CODES);
+}
+
+/**
+ * Caches provider availability: probes `isAvailable()` in the background and on expired entries,
+ * and updates the status from the outcome of real requests
+ */
+export class ProviderHealthMonitor {
+  private health: Map<string, ProviderHealth> = new Map();
+  private probes: Map<string, Promise<boolean>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private config: HealthConfig) {}
+
+  /**
+   * Replace the config, forget cached statuses and restart background probing for the providers
+   */
+  start(config: HealthConfig, getProviders: () => ImageProvider[]): void {
+    this.stop();
+    this.config = config;
+    this.health.clear();
+
+    if (config.interval > 0) {
+      this.timer = setInterval(() => {
+        this.refresh(getProviders()).catch(error => {
+          console.warn('Provider health check failed:', error);
+        });
+      }, config.interval);
+      // Background probing must not keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop background probing
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Probe all providers now
+   */
+  async refresh(providers: ImageProvider[]): Promise<void> {
+    await Promise.all(providers.map(provider => this.probe(provider)));
+  }
+
+  /**
+   * Cached availability, probed when unknown or older than the TTL
+   */
+  async isAvailable(provider: ImageProvider): Promise<boolean> {
+    const health = this.health.get(provider.name);
+    if (health?.checkedAt && Date.now() - health.checkedAt.getTime() < this.config.ttl) {
+      return health.status === 'up';
+    }
+
+    return this.probe(provider);
+  }
+
+  /**
+   * Mark a provider up after a successful request
+   */
+  recordSuccess(providerName: string): void {
+    this.health.set(providerName, {
+      status: 'up',
+      source: 'request',
+      checkedAt: new Date(),
+      consecutiveFailures: 0,
+    });
+  }
+
+  /**
+   * Count a failed request; the provider is marked down after `failureThreshold` failures in a row,
+   * or at once for credential and quota errors
+   */
+  recordFailure(providerName: string, error: any): void {
+    if (isRequestError(error)) {
+      return;
+    }
+
+    const previous = this.health.get(providerName);
+    const consecutiveFailures = (previous?.consecutiveFailures || 0) + 1;
+    const down = consecutiveFailures >= this.config.failureThreshold || hasErrorCode(error, CONFIGURATION_ERROR_CODES);
+
+    this.health.set(providerName, {
+      status: down ? 'down' : previous?.status || 'unknown',
+      source: 'request',
+      // A provider that is still up keeps its last check time, so its TTL isn't extended by failures
+      checkedAt: down ? new Date() : previous?.checkedAt,
+      consecutiveFailures,
+      lastError: error?.message || String(error),
+    });
+
+    if (down && previous?.status !== 'down') {
+      console.warn(`Provider ${providerName} marked down after ${consecutiveFailures} failed request(s): ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Current status of a provider
+   */
+  getHealth(providerName: string): ProviderHealth {
+    return this.health.get(providerName) || { status: 'unknown', source: 'probe', consecutiveFailures: 0 };
+  }
+
+  /**
+   * Run `isAvailable()` with a timeout; concurrent checks of one provider share the probe
+   */
+  private probe(provider: ImageProvider): Promise<boolean> {
+    const pending = this.probes.get(provider.name);
+    if (pending) {
+      return pending;
+    }
+
+    const probe = this.runProbe(provider).finally(() => {
+      this.probes.delete(provider.name);
+    });
+    this.probes.set(provider.name, probe);
+    return probe;
+  }
+
+  /**
+   * Probe a provider and store the result
+   */
+  private async runProbe(provider: ImageProvider): Promise<boolean> {
+    let timeout: NodeJS.Timeout | undefined;
+    let available = false;
+    let lastError: string | undefined;
+
+    try {
+      available = await Promise.race([
+        provider.isAvailable(),
+        new Promise<boolean>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`Availability check timed out after ${this.config.probeTimeout}ms`)),
+            this.config.probeTimeout
+          );
+        }),
+      ]);
+    } catch (error: any) {
+      lastError = error?.message || String(error);
+      console.warn(`Provider ${provider.name} is not available:`, lastError);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    this.health.set(provider.name, {
+      status: available ? 'up' : 'down',
+      source: 'probe',
+      checkedAt: new Date(),
+      consecutiveFailures: available ? 0 : this.health.get(provider.name)?.consecutiveFailures || 0,
+      lastError,
+    });
+
+    return available;
+  }
+}
@@ -0,0 +1,132 @@
+import { jest } from '@jest/globals';
+import type { ImageGenerationResult, ServerConfig } from '../types/index.js';
+
+const provider = (id: string) => ({ id, type: 'procedural', enabled: true, timeout: 5000 });
+
+let config: ServerConfig;
+
+function createConfig(fallback: Partial<ServerConfig['fallback']> = {}): ServerConfig {
+  return {
+    providers: {
+      chatgpt: { enabled: false },
+      huggingface: { enabled: false },
+      stability: { enabled: false },
+      local: { enabled: false },
+      ollama: { enabled: false },
+      procedural: { enabled: false, timeout: 5000 },
+      instances: [provider('a'), provider('b'), provider('c')],
+    },
+    routing: { policy: 'priority', features: {}, priorities: { generation: ['a', 'b', 'c'] }, costs: {}, weights: {}, rules: [] },
+    health: { interval: 0, ttl: 30000, probeTimeout: 1000, failureThreshold: 100 },
+    circuitBreaker: { enabled: true, failureThreshold: 100, cooldown: 30000, halfOpenRequests: 1, overrides: {} },
+    fallback: { enabled: true, noFallbackCodes: ['INVALID_REQUEST', 'CONTENT_POLICY_VIOLATION'], chains: {}, ...fallback },
+    plugins: [],
+  } as unknown as ServerConfig;
+}
+
+const configManager = { loadConfig: async () => config };
+jest.unstable_mockModule('../config/config.js', () => ({
+  default: configManager,
+  configManager,
+  BUILT_IN_PROVIDER_TYPES: ['chatgpt', 'huggingface', 'stability', 'local', 'ollama', 'procedural'],
+}));
+
+config = createConfig();
+const { ProviderManager } = await import('./providerManager.js');
+
+function providerError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+async function createManager(
+  fallback: Partial<ServerConfig['fallback']> = {},
+  failing: Record<string, string> = {}
+): Promise<InstanceType<typeof ProviderManager>> {
+  config = createConfig(fallback);
+  const manager = new ProviderManager();
+  await manager.ready();
+
+  for (const [id, code] of Object.entries(failing)) {
+    jest.spyOn(manager.getProvider(id)!, 'generateImage').mockRejectedValue(providerError(`${id} failed`, code));
+  }
+  return manager;
+}
+
+describe('ProviderManager fallback', () => {
+  const request = { prompt: 'A lighthouse at dusk' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockReturnValue(undefined);
+    jest.spyOn(console, 'warn').mockReturnValue(undefined);
+    jest.spyOn(console, 'error').mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('falls back to the next provider by priority', async () => {
+    const manager = await createManager({}, { a: 'PROVIDER_UNAVAILABLE' });
+
+    const result: ImageGenerationResult = await manager.generateImage(request);
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('b');
+    expect(result.routing).toEqual({ policy: 'fallback', candidates: ['b', 'c'] });
+    expect(result.attempts?.map(attempt => [attempt.provider, attempt.success, attempt.code])).toEqual([
+      ['a', false, 'PROVIDER_UNAVAILABLE'],
+      ['b', true, undefined],
+    ]);
+  });
+
+  it('stops after maxAttempts providers', async () => {
+    const manager = await createManager({ maxAttempts: 2 }, { a: 'TIMEOUT', b: 'TIMEOUT' });
+    const fallbackProvider = manager.getProvider('c')!;
+    const generate = jest.spyOn(fallbackProvider, 'generateImage');
+
+    const result = await manager.generateImage(request);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('All 2 providers failed: a: a failed; b: b failed');
+    expect(result.attempts?.map(attempt => attempt.provider)).toEqual(['a', 'b']);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('tries only the first provider when fallback is disabled', async () => {
+    const manager = await createManager({ enabled: false }, { a: 'TIMEOUT' });
+
+    const result = await manager.generateImage(request);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('a failed');
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  it('does not fall back on a content policy violation by default', async () => {
+    const manager = await createManager({}, { a: 'CONTENT_POLICY_VIOLATION' });
+
+    const result = await manager.generateImage(request);
+
+    expect(result.success).toBe(false);
+    expect(result.provider).toBe('a');
+    expect(result.attempts?.map(attempt => attempt.code)).toEqual(['CONTENT_POLICY_VIOLATION']);
+  });
+
+  it('falls back on a content policy violation when not listed in noFallbackCodes', async () => {
+    const manager = await createManager({ noFallbackCodes: [] }, { a: 'CONTENT_POLICY_VIOLATION' });
+
+    const result = await manager.generateImage(request);
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('b');
+  });
+
+  it('follows the configured chain and only its providers', async () => {
+    const manager = await createManager({ chains: { generation: ['c'] } }, { a: 'TIMEOUT', c: 'TIMEOUT' });
+
+    const result = await manager.generateImage(request);
+
+    expect(result.success).toBe(false);
+    expect(result.attempts?.map(attempt => attempt.provider)).toEqual(['a', 'c']);
+  });
+});
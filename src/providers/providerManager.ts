@@ -1,24 +1,78 @@
 import { ChatGPTProvider } from './chatGptProvider.js';
 import { HuggingFaceProvider } from './huggingFaceProvider.js';
-import configManager from '../config/config.js';
+import { StabilityProvider } from './stabilityProvider.js';
+import { LocalDiffusionProvider } from './localDiffusionProvider.js';
+import { OllamaVisionProvider } from './ollamaVisionProvider.js';
+import { ProceduralProvider } from './proceduralProvider.js';
+import { loadProviderPlugins, type LoadedProviderPlugin } from './providerPlugins.js';
+import { ProviderRouter } from './providerRouter.js';
+import { ProviderHealthMonitor, hasErrorCode } from './providerHealth.js';
+import { retryTracking } from './baseProvider.js';
+import { CircuitBreakerRegistry } from './circuitBreaker.js';
+import configManager, { BUILT_IN_PROVIDER_TYPES } from '../config/config.js';
 import type { 
   ImageProvider, 
   ImageGenerationRequest, 
   ImageGenerationResult,
   ImageDescriptionResult,
+  ImageDescriptionOptions,
   ImageTaggingResult,
+  ImageTaggingOptions,
+  ProviderInstanceConfig,
+  PluginInstanceConfig,
+  ProviderFeature,
+  ProviderHealth,
+  ProviderAttempt,
+  ProviderComparisonEntry,
+  CircuitBreakerStatus,
+  RoutingDecision,
+  RoutingFeature,
   ServerConfig 
 } from '../types/index.js';
 
+/**
+ * Whether an instance is handled by a built-in provider class
+ */
+function isBuiltInInstance(config: ProviderInstanceConfig | PluginInstanceConfig): config is ProviderInstanceConfig {
+  return (BUILT_IN_PROVIDER_TYPES as readonly string[]).includes(config.type);
+}
+
+// Failures caused by the request itself; another vendor would reject it too, or shouldn't see it
+const DEFAULT_NO_FALLBACK_CODES = ['INVALID_REQUEST', 'CONTENT_POLICY_VIOLATION'];
+
+/**
+ * Error code and message of a failed attempt, unwrapping the last error of exhausted retries
+ */
+function describeAttemptError(error: any): { code: string; message: string } {
+  const cause = error?.code === 'OPERATION_FAILED' ? error.details?.lastError : undefined;
+  return {
+    code: cause?.code || error?.code || 'UNKNOWN_ERROR',
+    message: cause?.message ? `${error.message}: ${cause.message}` : error?.message || String(error),
+  };
+}
+
 /**
  * Manager for all image providers
  */
 export class ProviderManager {
   private providers: Map<string, ImageProvider> = new Map();
+  private instanceConfigs: Map<string, ProviderInstanceConfig | PluginInstanceConfig> = new Map();
+  private plugins: Map<string, LoadedProviderPlugin> = new Map();
   private config: ServerConfig | null = null;
+  private router = new ProviderRouter({ policy: 'priority', features: {}, priorities: {}, costs: {}, weights: {}, rules: [] });
+  private health = new ProviderHealthMonitor({ interval: 0, ttl: 30000, probeTimeout: 10000, failureThreshold: 3 });
+  private breakers = new CircuitBreakerRegistry({ enabled: true, failureThreshold: 5, cooldown: 30000, halfOpenRequests: 1, overrides: {} });
+  private initialization: Promise<void>;
 
   constructor() {
-    this.initializeProviders();
+    this.initialization = this.initializeProviders();
+  }
+
+  /**
+   * Resolves once providers are created and their availability has been checked
+   */
+  ready(): Promise<void> {
+    return this.initialization;
   }
 
   /**
@@ -27,25 +81,124 @@ export class ProviderManager {
   private async initializeProviders(): Promise<void> {
     try {
       this.config = await configManager.loadConfig();
-      
-      // Initialize ChatGPT provider
-      if (this.config.providers.chatgpt.enabled) {
-        const chatGptProvider = new ChatGPTProvider(this.config.providers.chatgpt);
-        this.providers.set('chatgpt', chatGptProvider);
+      this.router.configure(this.config.routing);
+      this.breakers.configure(this.config.circuitBreaker);
+      const { instances, ...builtIn } = this.config.providers;
+
+      const plugins: Map<string, LoadedProviderPlugin> = new Map();
+      for (const plugin of await loadProviderPlugins(this.config.plugins, BUILT_IN_PROVIDER_TYPES)) {
+        plugins.set(plugin.type, plugin);
       }
+      this.plugins = plugins;
+
+      // Built-in provider sections are instances whose id is the provider type
+      const configs: Array<ProviderInstanceConfig | PluginInstanceConfig> = [
+        { ...builtIn.chatgpt, id: 'chatgpt', type: 'chatgpt' },
+        { ...builtIn.huggingface, id: 'huggingface', type: 'huggingface' },
+        { ...builtIn.stability, id: 'stability', type: 'stability' },
+        { ...builtIn.local, id: 'local', type: 'local' },
+        { ...builtIn.ollama, id: 'ollama', type: 'ollama' },
+        { ...builtIn.procedural, id: 'procedural', type: 'procedural' },
+        ...instances,
+      ];
+
+      // Built in a fresh map and swapped in, so overlapping reloads don't mix their providers
+      const providers: Map<string, ImageProvider> = new Map();
+      const instanceConfigs: Map<string, ProviderInstanceConfig | PluginInstanceConfig> = new Map();
+      for (const config of configs) {
+        if (!config.enabled) continue;
+
+        if (providers.has(config.id)) {
+          console.warn(`Skipping provider instance "${config.id}": the id is already used by an enabled provider`);
+          continue;
+        }
 
-      // Initialize HuggingFace provider
-      if (this.config.providers.huggingface.enabled) {
-        const huggingFaceProvider = new HuggingFaceProvider(this.config.providers.huggingface);
-        this.providers.set('huggingface', huggingFaceProvider);
+        try {
+          providers.set(config.id, await this.createProvider(config));
+          instanceConfigs.set(config.id, config);
+        } catch (error: any) {
+          console.error(`Failed to create provider "${config.id}":`, error.message || error);
+        }
       }
+      this.providers = providers;
+      this.instanceConfigs = instanceConfigs;
 
+      // Check availability once up front, then in the background
+      this.health.start(this.config.health, () => this.getProviders());
+      await this.health.refresh(this.getProviders());
+
+      if (plugins.size > 0) {
+        console.log(`Loaded ${plugins.size} provider plugins:`, Array.from(plugins.keys()));
+      }
       console.log(`Initialized ${this.providers.size} image providers:`, Array.from(this.providers.keys()));
     } catch (error) {
       console.error('Failed to initialize providers:', error);
     }
   }
 
+  /**
+   * Create a provider instance for its type
+   */
+  private async createProvider(config: ProviderInstanceConfig | PluginInstanceConfig): Promise<ImageProvider> {
+    if (!isBuiltInInstance(config)) {
+      return this.createPluginProvider(config);
+    }
+
+    switch (config.type) {
+      case 'chatgpt':
+        return new ChatGPTProvider(config, config.id);
+      case 'huggingface':
+        return new HuggingFaceProvider(config, config.id);
+      case 'stability':
+        return new StabilityProvider(config, config.id);
+      case 'local':
+        // Self-hosted SD WebUI / ComfyUI
+        return new LocalDiffusionProvider(config, config.id);
+      case 'ollama':
+        // Local vision model, describe and tag only
+        return new OllamaVisionProvider(config, config.id);
+      case 'procedural':
+        // Offline renderer
+        return new ProceduralProvider(config, config.id);
+    }
+  }
+
+  /**
+   * Validate plugin instance settings with the plugin's schema and create the provider
+   */
+  private async createPluginProvider(config: PluginInstanceConfig): Promise<ImageProvider> {
+    const plugin = this.plugins.get(config.type);
+    if (!plugin) {
+      throw new Error(`Unknown provider type "${config.type}", no loaded plugin provides it`);
+    }
+
+    const { id, type, ...settings } = config;
+    const parsed = plugin.configSchema.safeParse(settings);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+      throw new Error(`Invalid ${type} configuration: ${issues.join('; ')}`);
+    }
+
+    const provider = await plugin.createProvider(parsed.data, id);
+    if (provider.name !== id) {
+      throw new Error(`Plugin "${type}" created a provider named "${provider.name}", expected the instance id "${id}"`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Get loaded provider plugins
+   */
+  getPlugins(): Array<{ type: string; source: string; description?: string | undefined; features: ProviderFeature[] }> {
+    return Array.from(this.plugins.values()).map(plugin => ({
+      type: plugin.type,
+      source: plugin.source,
+      description: plugin.description,
+      features: plugin.capabilities.features,
+    }));
+  }
+
   /**
    * Get all available providers
    */
@@ -61,60 +214,92 @@ export class ProviderManager {
   }
 
   /**
-   * Get enabled and available providers
+   * Model configured for a provider instance, if its settings name one
+   */
+  getProviderModel(name: string): string | undefined {
+    const config = this.instanceConfigs.get(name);
+    const model = config && 'model' in config ? config.model : undefined;
+    return typeof model === 'string' ? model : undefined;
+  }
+
+  /**
+   * Get enabled and available providers, from the cached health status
    */
   async getAvailableProviders(): Promise<ImageProvider[]> {
     const providers = this.getProviders();
-    const availableProviders: ImageProvider[] = [];
-
-    for (const provider of providers) {
-      try {
-        if (await provider.isAvailable()) {
-          availableProviders.push(provider);
-        }
-      } catch (error) {
-        console.warn(`Provider ${provider.name} is not available:`, error);
-      }
-    }
+    const available = await Promise.all(providers.map(provider => this.health.isAvailable(provider)));
+    return providers.filter((_, index) => available[index]);
+  }
 
-    return availableProviders;
+  /**
+   * Cached health status of a provider
+   */
+  getProviderHealth(name: string): ProviderHealth {
+    return this.health.getHealth(name);
   }
 
   /**
    * Get best provider for a specific feature
    */
-  async getBestProvider(feature: 'generation' | 'description' | 'tagging' | 'logo' = 'generation'): Promise<ImageProvider | null> {
+  async getBestProvider(feature: RoutingFeature = 'generation'): Promise<ImageProvider | null> {
+    const selection = await this.selectProvider(feature);
+    return selection?.provider || null;
+  }
+
+  /**
+   * Pick a provider for a feature with the configured routing policies and rules
+   */
+  async selectProvider(
+    feature: RoutingFeature,
+    request?: ImageGenerationRequest
+  ): Promise<{ provider: ImageProvider; routing: RoutingDecision } | null> {
     const availableProviders = await this.getAvailableProviders();
     
-    // Filter providers that support the feature
+    // Filter providers that support the feature, skipping those whose breaker is open
     const supportingProviders = availableProviders.filter(provider => 
-      provider.supportsFeature(feature)
+      provider.supportsFeature(feature) && !this.breakers.isOpen(provider, feature)
     );
 
-    if (supportingProviders.length === 0) {
-      return null;
-    }
-
-    // Priority order for different features
-    const priorities: Record<string, string[]> = {
-      generation: ['chatgpt', 'huggingface'],
-      description: ['chatgpt', 'huggingface'],
-      tagging: ['huggingface', 'chatgpt'],
-      logo: ['chatgpt', 'huggingface'],
-    };
+    return this.router.select(feature, supportingProviders, request, this.getPluginTypes(feature));
+  }
 
-    const priorityOrder = priorities[feature] || ['chatgpt', 'huggingface'];
+  /**
+   * Plugin types declaring a feature; they rank after built-in providers
+   */
+  private getPluginTypes(feature: RoutingFeature): string[] {
+    return Array.from(this.plugins.values())
+      .filter(plugin => plugin.capabilities.features.includes(feature))
+      .map(plugin => plugin.type);
+  }
 
-    // Return provider based on priority
-    for (const providerName of priorityOrder) {
-      const provider = supportingProviders.find(p => p.name === providerName);
-      if (provider) {
-        return provider;
-      }
+  /**
+   * Run a provider call, recording its latency for routing and its outcome for health monitoring and the circuit breaker
+   */
+  private async track<T extends { success: boolean; error?: string }>(
+    provider: ImageProvider,
+    feature: RoutingFeature,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    this.breakers.onRequest(provider, feature);
+
+    let result: T;
+    try {
+      result = await call();
+    } catch (error) {
+      this.health.recordFailure(provider.name, error);
+      this.breakers.recordFailure(provider, feature, error);
+      throw error;
     }
 
-    // Return first available provider if no priority match
-    return supportingProviders[0] || null;
+    if (result.success) {
+      this.router.recordLatency(provider.name, feature, Date.now() - startedAt);
+      this.health.recordSuccess(provider.name);
+      this.breakers.recordSuccess(provider, feature);
+    } else {
+      this.breakers.release(provider, feature);
+    }
+    return result;
   }
 
   /**
@@ -122,59 +307,53 @@ export class ProviderManager {
    */
   async generateImage(
     request: ImageGenerationRequest,
-    preferredProvider?: string
+    preferredProvider?: string,
+    feature?: 'generation' | 'logo'
   ): Promise<ImageGenerationResult> {
-    let provider: ImageProvider | null = null;
+    const routingFeature = feature || (request.transparent ? 'logo' : 'generation');
+    const failed = (error: string, provider = 'none'): ImageGenerationResult => ({
+      success: false,
+      images: [],
+      provider,
+      requestId: '',
+      error,
+    });
+
+    let selection: { provider: ImageProvider; routing: RoutingDecision } | null = null;
 
     // Use preferred provider if specified and available
     if (preferredProvider) {
-      provider = this.getProvider(preferredProvider);
-      if (provider && !(await provider.isAvailable())) {
+      const provider = this.getProvider(preferredProvider);
+      if (!provider) {
+        return failed(this.getUnknownProviderMessage(preferredProvider));
+      }
+      if (!provider.supportsFeature(routingFeature)) {
+        console.warn(`Preferred provider ${preferredProvider} does not support ${routingFeature}, falling back to best available`);
+      } else if (!(await this.health.isAvailable(provider)) || this.breakers.isOpen(provider, routingFeature)) {
         console.warn(`Preferred provider ${preferredProvider} is not available, falling back to best available`);
-        provider = null;
+      } else {
+        selection = { provider, routing: { policy: 'preferred', candidates: [provider.name] } };
       }
     }
 
-    // Get best provider for logo generation if needed
-    if (!provider) {
-      const feature = request.transparent ? 'logo' : 'generation';
-      provider = await this.getBestProvider(feature);
+    // Route by feature (logo for transparent requests) and request traits
+    if (!selection) {
+      selection = await this.selectProvider(routingFeature, request);
     }
 
-    if (!provider) {
-      return {
-        success: false,
-        images: [],
-        provider: 'none',
-        requestId: '',
-        error: 'No available providers for image generation',
-      };
+    if (!selection) {
+      return failed('No available providers for image generation');
     }
 
-    try {
-      return await provider.generateImage(request);
-    } catch (error: any) {
-      console.error(`Image generation failed with provider ${provider.name}:`, error);
-      
-      // Try fallback provider
-      const fallbackProvider = await this.getFallbackProvider(provider.name, 'generation');
-      if (fallbackProvider) {
-        console.log(`Trying fallback provider: ${fallbackProvider.name}`);
-        try {
-          return await fallbackProvider.generateImage(request);
-        } catch (fallbackError: any) {
-          console.error(`Fallback provider ${fallbackProvider.name} also failed:`, fallbackError);
-        }
-      }
+    const outcome = await this.executeWithFallback(
+      routingFeature,
+      selection,
+      provider => provider.generateImage(request)
+    );
 
-      return {
-        success: false,
-        images: [],
-        provider: provider.name,
-        requestId: '',
-        error: error.message || 'Image generation failed',
-      };
-    }
+    return outcome.result
+      ? { ...outcome.result, routing: outcome.routing, attempts: outcome.attempts }
+      : { ...failed(outcome.error, outcome.provider), routing: outcome.routing, attempts: outcome.attempts };
   }
 
   /**
@@ -182,51 +361,49 @@ export class ProviderManager {
    */
   async describeImage(
     imageUrl: string,
-    preferredProvider?: string
+    preferredProvider?: string,
+    options?: ImageDescriptionOptions
   ): Promise<ImageDescriptionResult> {
-    let provider: ImageProvider | null = null;
+    const failed = (error: string, provider = 'none'): ImageDescriptionResult => ({
+      success: false,
+      description: '',
+      provider,
+      error,
+    });
+
+    let selection: { provider: ImageProvider; routing: RoutingDecision } | null = null;
 
     if (preferredProvider) {
-      provider = this.getProvider(preferredProvider);
-      if (provider && !(await provider.isAvailable())) {
-        provider = null;
+      const provider = this.getProvider(preferredProvider);
+      if (!provider) {
+        return failed(this.getUnknownProviderMessage(preferredProvider));
+      }
+      if (
+        (await this.health.isAvailable(provider)) &&
+        provider.supportsFeature('description') &&
+        !this.breakers.isOpen(provider, 'description')
+      ) {
+        selection = { provider, routing: { policy: 'preferred', candidates: [provider.name] } };
       }
     }
 
-    if (!provider) {
-      provider = await this.getBestProvider('description');
+    if (!selection) {
+      selection = await this.selectProvider('description');
     }
 
-    if (!provider || !provider.describeImage) {
-      return {
-        success: false,
-        description: '',
-        provider: 'none',
-        error: 'No available providers for image description',
-      };
+    if (!selection || !selection.provider.describeImage) {
+      return failed('No available providers for image description');
     }
 
-    try {
-      return await provider.describeImage(imageUrl);
-    } catch (error: any) {
-      console.error(`Image description failed with provider ${provider.name}:`, error);
-      
-      const fallbackProvider = await this.getFallbackProvider(provider.name, 'description');
-      if (fallbackProvider && fallbackProvider.describeImage) {
-        try {
-          return await fallbackProvider.describeImage(imageUrl);
-        } catch (fallbackError: any) {
-          console.error(`Fallback provider ${fallbackProvider.name} also failed:`, fallbackError);
-        }
-      }
+    const outcome = await this.executeWithFallback(
+      'description',
+      selection,
+      provider => provider.describeImage ? provider.describeImage(imageUrl, options) : null
+    );
 
-      return {
-        success: false,
-        description: '',
-        provider: provider.name,
-        error: error.message || 'Image description failed',
-      };
-    }
+    return outcome.result
+      ? { ...outcome.result, routing: outcome.routing, attempts: outcome.attempts }
+      : { ...failed(outcome.error, outcome.provider), routing: outcome.routing, attempts: outcome.attempts };
   }
 
   /**
@@ -234,66 +411,238 @@ export class ProviderManager {
    */
   async tagImage(
     imageUrl: string,
-    preferredProvider?: string
+    preferredProvider?: string,
+    options?: ImageTaggingOptions
   ): Promise<ImageTaggingResult> {
-    let provider: ImageProvider | null = null;
+    // Only zero-shot providers honour caller-supplied labels, others would return their own vocabulary
+    const zeroShot = !!(options?.labels?.length || options?.labelSet);
+    const feature = options?.mode === 'detection' ? 'detection' : zeroShot ? 'zero-shot' : 'tagging';
+    const featureNames = { detection: 'object detection', 'zero-shot': 'zero-shot tagging (labels / labelSet)', tagging: 'image tagging' };
+    const failed = (error: string, provider = 'none'): ImageTaggingResult => ({
+      success: false,
+      tags: [],
+      provider,
+      error,
+    });
+
+    let selection: { provider: ImageProvider; routing: RoutingDecision } | null = null;
 
     if (preferredProvider) {
-      provider = this.getProvider(preferredProvider);
-      if (provider && !(await provider.isAvailable())) {
-        provider = null;
+      const provider = this.getProvider(preferredProvider);
+      if (!provider) {
+        return failed(this.getUnknownProviderMessage(preferredProvider));
+      }
+      if (
+        (await this.health.isAvailable(provider)) &&
+        provider.supportsFeature(feature) &&
+        !this.breakers.isOpen(provider, feature)
+      ) {
+        selection = { provider, routing: { policy: 'preferred', candidates: [provider.name] } };
       }
     }
 
-    if (!provider) {
-      provider = await this.getBestProvider('tagging');
+    if (!selection) {
+      selection = await this.selectProvider(feature);
     }
 
-    if (!provider || !provider.tagImage) {
-      return {
-        success: false,
-        tags: [],
-        provider: 'none',
-        error: 'No available providers for image tagging',
-      };
+    if (!selection || !selection.provider.tagImage) {
+      return failed(`No available providers for ${featureNames[feature]}`);
     }
 
-    try {
-      return await provider.tagImage(imageUrl);
-    } catch (error: any) {
-      console.error(`Image tagging failed with provider ${provider.name}:`, error);
-      
-      const fallbackProvider = await this.getFallbackProvider(provider.name, 'tagging');
-      if (fallbackProvider && fallbackProvider.tagImage) {
-        try {
-          return await fallbackProvider.tagImage(imageUrl);
-        } catch (fallbackError: any) {
-          console.error(`Fallback provider ${fallbackProvider.name} also failed:`, fallbackError);
+    const outcome = await this.executeWithFallback(
+      feature,
+      selection,
+      provider => provider.tagImage ? provider.tagImage(imageUrl, options) : null
+    );
+
+    return outcome.result
+      ? { ...outcome.result, routing: outcome.routing, attempts: outcome.attempts }
+      : { ...failed(outcome.error, outcome.provider), routing: outcome.routing, attempts: outcome.attempts };
+  }
+
+  /**
+   * Generate the same request with every available generation provider (or the given ids) in parallel;
+   * requested providers that can't run are returned as failed entries
+   */
+  async compareProviders(request: ImageGenerationRequest, providerIds?: string[]): Promise<ProviderComparisonEntry[]> {
+    const available = await this.getAvailableProviders();
+    let candidates: ImageProvider[];
+    const skipped: ProviderComparisonEntry[] = [];
+
+    if (providerIds && providerIds.length > 0) {
+      const unknown = providerIds.filter(id => !this.providers.has(id));
+      if (unknown.length > 0) {
+        throw new Error(this.getUnknownProviderMessage(unknown[0]!));
+      }
+
+      // Requested providers that can't take part are reported like failed generations
+      candidates = [];
+      for (const id of new Set(providerIds)) {
+        const provider = this.providers.get(id)!;
+        if (!provider.supportsFeature('generation')) {
+          skipped.push(this.createSkippedEntry(provider, 'IMAGE_GENERATION_NOT_SUPPORTED', `${id} does not support image generation`));
+        } else if (!available.includes(provider)) {
+          const { lastError } = this.health.getHealth(id);
+          skipped.push(this.createSkippedEntry(provider, 'PROVIDER_UNAVAILABLE', `${id} is not available${lastError ? `: ${lastError}` : ''}`));
+        } else {
+          candidates.push(provider);
         }
       }
+    } else {
+      candidates = available.filter(provider => provider.supportsFeature('generation'));
+    }
 
-      return {
-        success: false,
-        tags: [],
-        provider: provider.name,
-        error: error.message || 'Image tagging failed',
-      };
+    const entries = await Promise.all(candidates.map(async (provider): Promise<ProviderComparisonEntry> => {
+      const startedAt = Date.now();
+      try {
+        const result = await this.track(provider, 'generation', () => provider.generateImage(request));
+        return {
+          provider: provider.name,
+          type: provider.type,
+          success: result.success,
+          durationMs: Date.now() - startedAt,
+          result,
+          error: result.error,
+        };
+      } catch (error) {
+        console.error(`Comparison generation failed with provider ${provider.name}:`, error);
+        const { code, message } = describeAttemptError(error);
+        return {
+          provider: provider.name,
+          type: provider.type,
+          success: false,
+          durationMs: Date.now() - startedAt,
+          code,
+          error: message,
+        };
+      }
+    }));
+
+    return [...entries, ...skipped];
+  }
+
+  /**
+   * Comparison entry for a requested provider that was not run
+   */
+  private createSkippedEntry(provider: ImageProvider, code: string, error: string): ProviderComparisonEntry {
+    return { provider: provider.name, type: provider.type, success: false, durationMs: 0, code, error };
+  }
+
+  /**
+   * Error message for a provider id that is not configured
+   */
+  private getUnknownProviderMessage(id: string): string {
+    const known = Array.from(this.providers.keys());
+    return `Unknown provider "${id}". Configured providers: ${known.length > 0 ? known.join(', ') : 'none'}`;
+  }
+
+  /**
+   * Try the selected provider, then the fallback chain until one succeeds, an error must not fall back
+   * or `fallback.maxAttempts` providers have been tried; every try is recorded in `attempts`
+   */
+  private async executeWithFallback<T extends { success: boolean; error?: string }>(
+    feature: RoutingFeature,
+    selection: { provider: ImageProvider; routing: RoutingDecision },
+    call: (provider: ImageProvider) => Promise<T> | null
+  ): Promise<{
+    result?: T;
+    routing: RoutingDecision;
+    attempts: ProviderAttempt[];
+    provider: string;
+    error: string;
+  }> {
+    const fallback = this.config?.fallback;
+    const maxAttempts = fallback?.enabled === false ? 1 : fallback?.maxAttempts ?? Number.POSITIVE_INFINITY;
+    const attempts: ProviderAttempt[] = [];
+    let routing = selection.routing;
+    let chain: ImageProvider[] | null = null;
+    let provider: ImageProvider | undefined = selection.provider;
+
+    while (provider && attempts.length < maxAttempts) {
+      const current: ImageProvider = provider;
+      const tracking = { retries: 0 };
+      const startedAt = Date.now();
+      let error: any = null;
+
+      try {
+        const result = await retryTracking.run(tracking, () => this.track(current, feature, () => {
+          const pending = call(current);
+          if (!pending) {
+            throw new Error(`Provider ${current.name} does not support ${feature}`);
+          }
+          return pending;
+        }));
+
+        attempts.push({
+          provider: current.name,
+          success: result.success,
+          code: result.success ? undefined : 'OPERATION_FAILED',
+          message: result.success ? undefined : result.error,
+          durationMs: Date.now() - startedAt,
+          retried: tracking.retries > 0,
+        });
+
+        if (result.success) {
+          return { result, routing, attempts, provider: current.name, error: '' };
+        }
+      } catch (caught: any) {
+        error = caught;
+        attempts.push({
+          provider: current.name,
+          success: false,
+          ...describeAttemptError(caught),
+          durationMs: Date.now() - startedAt,
+          retried: tracking.retries > 0,
+        });
+        console.error(`${feature} failed with provider ${current.name}:`, caught);
+      }
+
+      // Errors caused by the request (or its content) aren't sent to another provider unless opted in
+      const noFallbackCodes = fallback?.noFallbackCodes || DEFAULT_NO_FALLBACK_CODES;
+      if (error && hasErrorCode(error, noFallbackCodes)) {
+        break;
+      }
+
+      chain = chain || await this.getFallbackChain(feature, selection.provider);
+      provider = chain.shift();
+      if (provider) {
+        console.log(`Trying fallback provider: ${provider.name}`);
+        routing = { policy: 'fallback', candidates: [provider.name, ...chain.map(next => next.name)] };
+      }
     }
+
+    const last = attempts[attempts.length - 1];
+    const error = attempts.length === 1
+      ? last?.message || `${feature} failed`
+      : `All ${attempts.length} providers failed: ${attempts.map(attempt => `${attempt.provider}: ${attempt.message}`).join('; ')}`;
+
+    return { routing, attempts, provider: last?.provider || selection.provider.name, error };
   }
 
   /**
-   * Get fallback provider (different from the failed one)
+   * Providers to try after the first choice: available, capable and with a closed breaker, in the order
+   * of `fallback.chains[feature]` when configured (only listed ids or types), otherwise by routing priority
    */
-  private async getFallbackProvider(
-    failedProviderName: string,
-    feature: 'generation' | 'description' | 'tagging'
-  ): Promise<ImageProvider | null> {
+  private async getFallbackChain(feature: RoutingFeature, failedProvider: ImageProvider): Promise<ImageProvider[]> {
     const availableProviders = await this.getAvailableProviders();
-    
-    return availableProviders.find(provider => 
-      provider.name !== failedProviderName && 
-      provider.supportsFeature(feature)
-    ) || null;
+    const candidates = availableProviders.filter(provider => 
+      provider.name !== failedProvider.name && 
+      provider.supportsFeature(feature) &&
+      !this.breakers.isOpen(provider, feature)
+    );
+
+    const chain = this.config?.fallback.chains[feature];
+    if (!chain) {
+      return this.router.orderByPriority(feature, candidates, this.getPluginTypes(feature));
+    }
+
+    const rank = (provider: ImageProvider): number => {
+      const byId = chain.indexOf(provider.name);
+      return byId !== -1 ? byId : chain.indexOf(provider.type);
+    };
+    return candidates
+      .filter(provider => rank(provider) !== -1)
+      .sort((a, b) => rank(a) - rank(b));
   }
 
   /**
@@ -304,26 +653,33 @@ export class ProviderManager {
     availableProviders: number;
     providerInfo: Array<{
       name: string;
+      type: string;
       available: boolean;
       features: string[];
       supportedFormats: string[];
       maxImageCount: number;
+      health: ProviderHealth;
+      circuitBreakers: Record<string, CircuitBreakerStatus>;
     }>;
+    plugins: ReturnType<ProviderManager['getPlugins']>;
   }> {
     const allProviders = this.getProviders();
     const availableProviders = await this.getAvailableProviders();
     
     const providerInfo = await Promise.all(
       allProviders.map(async (provider) => {
-        const isAvailable = await provider.isAvailable();
+        const isAvailable = await this.health.isAvailable(provider);
         const info = provider.getInfo();
         
         return {
           name: provider.name,
+          type: provider.type,
           available: isAvailable,
           features: info.features,
           supportedFormats: info.supportedFormats,
           maxImageCount: info.maxImageCount,
+          health: this.health.getHealth(provider.name),
+          circuitBreakers: this.breakers.getStatus(provider.name),
         };
       })
     );
@@ -332,6 +688,7 @@ export class ProviderManager {
       totalProviders: allProviders.length,
       availableProviders: availableProviders.length,
       providerInfo,
+      plugins: this.getPlugins(),
     };
   }
 
@@ -343,7 +700,8 @@ export class ProviderManager {
     this.providers.clear();
     
     // Reinitialize
-    await this.initializeProviders();
+    this.initialization = this.initializeProviders();
+    await this.initialization;
   }
 
   /**
@@ -0,0 +1,132 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { ImageProvider, ProviderFeature } from '../types/index.js';
+
+/**
+ * What a plugin's providers can do, known before any instance is created
+ */
+export interface ProviderPluginCapabilities {
+  features: ProviderFeature[];
+  formats?: string[] | undefined;
+}
+
+/**
+ * Provider plugin contract.
+ *
+ * A plugin module's default export (or `plugins` export) is a plugin or an array of plugins.
+ * Instances are configured in `providers.instances` with `type` set to the plugin type;
+ * their remaining settings (without `id` and `type`) are validated with `configSchema`
+ * and handed to `createProvider` together with the instance id, which must become the
+ * provider's `name`. Providers usually extend `BaseImageProvider`.
+ */
+export interface ProviderPlugin<TConfig = any> {
+  type: string;
+  description?: string | undefined;
+  capabilities: ProviderPluginCapabilities;
+  configSchema: ZodType<TConfig, ZodTypeDef, unknown>;
+  createProvider(config: TConfig, id: string): ImageProvider | Promise<ImageProvider>;
+}
+
+/**
+ * Loaded plugin with the specifier it came from
+ */
+export interface LoadedProviderPlugin extends ProviderPlugin {
+  source: string;
+}
+
+const FEATURES: ProviderFeature[] = ['generation', 'description', 'tagging', 'detection', 'zero-shot', 'transparency', 'logo'];
+
+/**
+ * Identity helper that gives plugin authors type checking of their config
+ */
+export function defineProviderPlugin<TConfig>(plugin: ProviderPlugin<TConfig>): ProviderPlugin<TConfig> {
+  return plugin;
+}
+
+/**
+ * Load provider plugins from npm package names or local paths (relative to the working directory).
+ * Plugins that fail to load or don't match the contract are skipped with a warning.
+ */
+export async function loadProviderPlugins(
+  specifiers: string[],
+  reservedTypes: readonly string[] = []
+): Promise<LoadedProviderPlugin[]> {
+  const plugins: LoadedProviderPlugin[] = [];
+
+  for (const specifier of specifiers) {
+    let exported: unknown;
+    try {
+      exported = await importPlugin(specifier);
+    } catch (error: any) {
+      console.warn(`Failed to load provider plugin "${specifier}": ${error.message}`);
+      continue;
+    }
+
+    for (const candidate of Array.isArray(exported) ? exported : [exported]) {
+      const problem = validatePlugin(candidate);
+      if (problem) {
+        console.warn(`Ignoring provider plugin from "${specifier}": ${problem}`);
+        continue;
+      }
+
+      const plugin = candidate as ProviderPlugin;
+      if (reservedTypes.includes(plugin.type) || plugins.some(loaded => loaded.type === plugin.type)) {
+        console.warn(`Ignoring provider plugin from "${specifier}": type "${plugin.type}" is already registered`);
+        continue;
+      }
+
+      plugins.push({ ...plugin, source: specifier });
+    }
+  }
+
+  return plugins;
+}
+
+/**
+ * Import a plugin module and return its plugin export
+ */
+async function importPlugin(specifier: string): Promise<unknown> {
+  const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+  let url: string;
+
+  if (isPath) {
+    url = pathToFileURL(path.resolve(process.cwd(), specifier)).href;
+  } else {
+    // Resolve packages from the project using the server, falling back to the server's own dependencies
+    try {
+      const require = createRequire(path.join(process.cwd(), 'package.json'));
+      url = pathToFileURL(require.resolve(specifier)).href;
+    } catch {
+      url = specifier;
+    }
+  }
+
+  const module = await import(url);
+  return module.plugins ?? module.default ?? module.plugin;
+}
+
+/**
+ * Describe why a value is not a valid plugin, or return null
+ */
+function validatePlugin(candidate: any): string | null {
+  if (!candidate || typeof candidate !== 'object') {
+    return 'module does not export a plugin';
+  }
+  if (typeof candidate.type !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(candidate.type)) {
+    return '"type" must be a provider type name';
+  }
+  if (typeof candidate.configSchema?.safeParse !== 'function') {
+    return `"${candidate.type}" has no zod "configSchema"`;
+  }
+  if (typeof candidate.createProvider !== 'function') {
+    return `"${candidate.type}" has no "createProvider" function`;
+  }
+  if (!Array.isArray(candidate.capabilities?.features) ||
+      candidate.capabilities.features.some((feature: unknown) => !FEATURES.includes(feature as ProviderFeature))) {
+    return `"${candidate.type}" must list its capabilities.features (${FEATURES.join(', ')})`;
+  }
+
+  return null;
+}
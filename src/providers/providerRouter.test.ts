@@ -0,0 +1,108 @@
+import { jest } from '@jest/globals';
+import { ProviderRouter } from './providerRouter.js';
+import type { ImageProvider, RoutingConfig } from '../types/index.js';
+
+function stubProvider(name: string, type: string = name, maxImageCount: number = 1): ImageProvider {
+  return { name, type, getMaxImageCount: () => maxImageCount } as unknown as ImageProvider;
+}
+
+function createRouter(overrides: Partial<RoutingConfig> = {}): ProviderRouter {
+  return new ProviderRouter({ policy: 'priority', features: {}, priorities: {}, costs: {}, weights: {}, rules: [], ...overrides });
+}
+
+describe('ProviderRouter', () => {
+  const chatgpt = stubProvider('chatgpt');
+  const huggingface = stubProvider('huggingface', 'huggingface', 4);
+  const stability = stubProvider('stability', 'stability', 4);
+  const candidates = [stability, huggingface, chatgpt];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('picks by built-in priority by default', () => {
+    const selection = createRouter().select('generation', candidates);
+
+    expect(selection?.provider).toBe(chatgpt);
+    expect(selection?.routing).toEqual({ policy: 'priority', candidates: ['chatgpt', 'huggingface', 'stability'] });
+    expect(createRouter().select('tagging', candidates)?.provider).toBe(huggingface);
+  });
+
+  it('returns null without candidates', () => {
+    expect(createRouter().select('generation', [])).toBeNull();
+  });
+
+  it('uses configured priorities by instance id before type', () => {
+    const router = createRouter({ priorities: { generation: ['stability', 'chatgpt'] } });
+
+    expect(router.select('generation', candidates)?.provider).toBe(stability);
+  });
+
+  it('picks the cheapest provider with lowest-cost, honouring cost overrides', () => {
+    expect(createRouter({ policy: 'lowest-cost' }).select('generation', candidates)?.provider).toBe(huggingface);
+
+    const router = createRouter({ policy: 'lowest-cost', costs: { huggingface: 0.5 } });
+    expect(router.select('generation', candidates)?.provider).toBe(stability);
+  });
+
+  it('tries unmeasured providers first with fastest, then the lowest latency', () => {
+    const router = createRouter({ features: { generation: 'fastest' } });
+
+    router.recordLatency('chatgpt', 'generation', 900);
+    router.recordLatency('huggingface', 'generation', 300);
+    expect(router.select('generation', candidates)?.provider).toBe(stability);
+
+    router.recordLatency('stability', 'generation', 600);
+    expect(router.select('generation', candidates)?.provider).toBe(huggingface);
+    expect(router.select('description', candidates)?.routing.policy).toBe('priority');
+  });
+
+  it('rotates through candidates with round-robin', () => {
+    const router = createRouter({ policy: 'round-robin' });
+
+    const picks = [1, 2, 3, 4].map(() => router.select('generation', candidates)?.provider.name);
+
+    expect(picks).toEqual(['chatgpt', 'huggingface', 'stability', 'chatgpt']);
+  });
+
+  it('picks by weight with weighted-random', () => {
+    const router = createRouter({ policy: 'weighted-random', weights: { chatgpt: 1, huggingface: 0, stability: 3 } });
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.2); // 0.8 of 4 falls in chatgpt's share
+    expect(router.select('generation', candidates)?.provider).toBe(chatgpt);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5); // 2 of 4 falls in stability's share
+    expect(router.select('generation', candidates)?.provider).toBe(stability);
+  });
+
+  it('applies the first matching rule and reports it', () => {
+    const router = createRouter({
+      rules: [
+        { name: 'transparent', when: { transparent: true }, provider: ['chatgpt'] },
+        { name: 'batches', when: { minCount: 2 }, policy: 'lowest-cost' },
+      ],
+    });
+
+    const transparent = router.select('logo', candidates, { prompt: 'logo', transparent: true });
+    expect(transparent?.provider).toBe(chatgpt);
+    expect(transparent?.routing).toEqual({ policy: 'priority', rule: 'transparent', candidates: ['chatgpt'] });
+
+    // chatgpt can't make four images, so the batch rule only considers the others
+    const batch = router.select('generation', candidates, { prompt: 'icons', count: 4 });
+    expect(batch?.provider).toBe(huggingface);
+    expect(batch?.routing).toEqual({ policy: 'lowest-cost', rule: 'batches', candidates: ['huggingface', 'stability'] });
+  });
+
+  it('skips rules whose providers are not candidates', () => {
+    const router = createRouter({ rules: [{ when: {}, provider: ['local'] }] });
+
+    expect(router.select('generation', candidates)?.routing.rule).toBeUndefined();
+  });
+
+  it('only applies rules to their features', () => {
+    const router = createRouter({ rules: [{ name: 'cheap-tags', features: ['tagging'], when: {}, policy: 'lowest-cost' }] });
+
+    expect(router.select('generation', candidates)?.provider).toBe(chatgpt);
+    expect(router.select('tagging', candidates)?.routing.rule).toBe('cheap-tags');
+  });
+});
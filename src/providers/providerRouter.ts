@@ -0,0 +1,234 @@
+import type {
+  ImageProvider,
+  ImageGenerationRequest,
+  RoutingConfig,
+  RoutingDecision,
+  RoutingFeature,
+  RoutingPolicy,
+  RoutingRule,
+} from '../types/index.js';
+
+/**
+ * Built-in priority order of provider types per feature
+ */
+export const DEFAULT_PRIORITIES: Record<RoutingFeature, string[]> = {
+  generation: ['chatgpt', 'huggingface', 'stability', 'local', 'procedural'],
+  description: ['chatgpt', 'huggingface', 'ollama', 'procedural'],
+  tagging: ['huggingface', 'chatgpt', 'ollama', 'procedural'],
+  detection: ['huggingface'],
+  'zero-shot': ['huggingface'],
+  logo: ['chatgpt', 'huggingface', 'stability', 'local', 'procedural'],
+};
+
+/**
+ * Rough USD per request for the lowest-cost policy, overridden by `routing.costs`
+ */
+export const DEFAULT_COSTS: Record<string, number> = {
+  chatgpt: 0.04,
+  stability: 0.03,
+  huggingface: 0.01,
+  local: 0,
+  ollama: 0,
+  procedural: 0,
+};
+
+// Weight of the newest sample in the latency average
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Picks a provider for a request from the available candidates according to the routing config
+ */
+export class ProviderRouter {
+  private latencies: Map<string, number> = new Map();
+  private roundRobin: Map<string, number> = new Map();
+
+  constructor(private config: RoutingConfig) {}
+
+  /**
+   * Replace the routing config; observed latencies are kept
+   */
+  configure(config: RoutingConfig): void {
+    this.config = config;
+    this.roundRobin.clear();
+  }
+
+  /**
+   * Choose among providers that are available and support the feature; null when there are none
+   */
+  select(
+    feature: RoutingFeature,
+    candidates: ImageProvider[],
+    request?: ImageGenerationRequest,
+    pluginTypes: string[] = []
+  ): { provider: ImageProvider; routing: RoutingDecision } | null {
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const ordered = this.orderByPriority(feature, candidates, pluginTypes);
+    const policy = this.config.features[feature] || this.config.policy;
+
+    for (const [index, rule] of this.config.rules.entries()) {
+      if (!this.ruleMatches(rule, feature, request)) continue;
+
+      const narrowed = this.applyRule(rule, ordered, request);
+      if (narrowed.length === 0) continue;
+
+      const rulePolicy = rule.policy || policy;
+      return {
+        provider: this.pick(rulePolicy, feature, narrowed, `rule:${index}`),
+        routing: {
+          policy: rulePolicy,
+          rule: rule.name || `rules[${index}]`,
+          candidates: narrowed.map(provider => provider.name),
+        },
+      };
+    }
+
+    return {
+      provider: this.pick(policy, feature, ordered, feature),
+      routing: { policy, candidates: ordered.map(provider => provider.name) },
+    };
+  }
+
+  /**
+   * Record the duration of a successful call for the fastest policy
+   */
+  recordLatency(providerName: string, feature: RoutingFeature, durationMs: number): void {
+    const key = `${providerName}:${feature}`;
+    const previous = this.latencies.get(key);
+    this.latencies.set(
+      key,
+      previous === undefined ? durationMs : previous + LATENCY_SMOOTHING * (durationMs - previous)
+    );
+  }
+
+  /**
+   * Smoothed latency per provider for a feature, in milliseconds
+   */
+  getLatencies(feature: RoutingFeature): Record<string, number> {
+    const latencies: Record<string, number> = {};
+    const suffix = `:${feature}`;
+    for (const [key, value] of this.latencies) {
+      if (key.endsWith(suffix)) {
+        latencies[key.slice(0, -suffix.length)] = Math.round(value);
+      }
+    }
+    return latencies;
+  }
+
+  /**
+   * Sort candidates by the configured or built-in priority, plugins after built-ins, the rest in config order
+   */
+  orderByPriority(feature: RoutingFeature, candidates: ImageProvider[], pluginTypes: string[]): ImageProvider[] {
+    const priorities = this.config.priorities[feature] || [...DEFAULT_PRIORITIES[feature], ...pluginTypes];
+    const rank = (provider: ImageProvider): number => {
+      const byId = priorities.indexOf(provider.name);
+      if (byId !== -1) return byId;
+      const byType = priorities.indexOf(provider.type);
+      return byType !== -1 ? byType : priorities.length;
+    };
+
+    // Array sort is stable, so instances of the same rank keep their config order
+    return [...candidates].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Whether a rule applies to the feature and request traits
+   */
+  private ruleMatches(rule: RoutingRule, feature: RoutingFeature, request?: ImageGenerationRequest): boolean {
+    if (rule.features && !rule.features.includes(feature)) {
+      return false;
+    }
+
+    const { when } = rule;
+    if (when.transparent !== undefined && !!request?.transparent !== when.transparent) {
+      return false;
+    }
+    if (when.style && (!request?.style || !when.style.includes(request.style))) {
+      return false;
+    }
+    if (when.format && (!request?.format || !when.format.includes(request.format))) {
+      return false;
+    }
+    if (when.quality && request?.quality !== when.quality) {
+      return false;
+    }
+    if (when.minCount !== undefined && (request?.count || 1) < when.minCount) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Candidates a matching rule allows, in priority order
+   */
+  private applyRule(rule: RoutingRule, candidates: ImageProvider[], request?: ImageGenerationRequest): ImageProvider[] {
+    let narrowed = candidates;
+
+    if (rule.provider) {
+      const targets = rule.provider;
+      narrowed = narrowed.filter(provider => targets.includes(provider.name) || targets.includes(provider.type));
+    }
+
+    if (rule.when.minCount !== undefined) {
+      const count = request?.count || 1;
+      narrowed = narrowed.filter(provider => provider.getMaxImageCount() >= count);
+    }
+
+    return narrowed;
+  }
+
+  /**
+   * Apply a policy to candidates that are already in priority order
+   */
+  private pick(policy: RoutingPolicy, feature: RoutingFeature, candidates: ImageProvider[], rotationKey: string): ImageProvider {
+    const first = candidates[0]!;
+
+    switch (policy) {
+      case 'priority':
+        return first;
+
+      case 'lowest-cost': {
+        // Providers without a cost estimate go last, ties keep priority order
+        const cost = (provider: ImageProvider) => this.getSetting(this.config.costs, provider)
+          ?? DEFAULT_COSTS[provider.type]
+          ?? Number.POSITIVE_INFINITY;
+        return [...candidates].sort((a, b) => cost(a) - cost(b))[0] || first;
+      }
+
+      case 'fastest': {
+        // Unmeasured providers are tried first so every candidate gets a sample
+        const latency = (provider: ImageProvider) => this.latencies.get(`${provider.name}:${feature}`) ?? -1;
+        return [...candidates].sort((a, b) => latency(a) - latency(b))[0] || first;
+      }
+
+      case 'round-robin': {
+        const turn = this.roundRobin.get(rotationKey) || 0;
+        this.roundRobin.set(rotationKey, turn + 1);
+        return candidates[turn % candidates.length] || first;
+      }
+
+      case 'weighted-random': {
+        const weights = candidates.map(provider => this.getSetting(this.config.weights, provider) ?? 1);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        if (total <= 0) return first;
+
+        let roll = Math.random() * total;
+        for (const [index, provider] of candidates.entries()) {
+          roll -= weights[index]!;
+          if (roll < 0) return provider;
+        }
+        return first;
+      }
+    }
+  }
+
+  /**
+   * Look up a per-provider setting by instance id, then by type
+   */
+  private getSetting(settings: Record<string, number>, provider: ImageProvider): number | undefined {
+    return settings[provider.name] ?? settings[provider.type];
+  }
+}
@@ -0,0 +1,338 @@
+import { v4 as uuidv4 } from 'uuid';
+import sharp from 'sharp';
+import { BaseImageProvider } from './baseProvider.js';
+import { createProviderFetch } from './httpCassette.js';
+import type {
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  StabilityConfig,
+  GeneratedImage,
+  ImageStyle,
+} from '../types/index.js';
+
+/**
+ * Aspect ratios accepted by the Stable Image API
+ */
+const ASPECT_RATIOS = ['21:9', '16:9', '3:2', '5:4', '1:1', '4:5', '2:3', '9:16', '9:21'];
+
+/**
+ * Style presets matching our image styles (only sent to endpoints that support presets)
+ */
+const STYLE_PRESETS: Partial<Record<ImageStyle, string>> = {
+  realistic: 'photographic',
+  photographic: 'photographic',
+  cartoon: 'comic-book',
+  anime: 'anime',
+  'digital-art': 'digital-art',
+  cyberpunk: 'neon-punk',
+  sketch: 'line-art',
+  surreal: 'fantasy-art',
+};
+
+/**
+ * Stability AI provider using the Stable Image REST API (core, ultra and SD3 endpoints)
+ */
+export class StabilityProvider extends BaseImageProvider {
+  readonly type = 'stability';
+  name: string;
+  private config: StabilityConfig;
+  private fetch: typeof fetch;
+
+  constructor(config: StabilityConfig, name: string = 'stability') {
+    super(config.timeout);
+    this.name = name;
+    this.config = config;
+    this.fetch = createProviderFetch(this.name, config.recording, [config.apiKey]);
+  }
+
+  /**
+   * Check if provider is available and configured
+   */
+  async isAvailable(): Promise<boolean> {
+    if (!this.config.enabled || !this.getApiKey()) {
+      return false;
+    }
+
+    try {
+      // Test API connectivity and key validity
+      const response = await this.fetch(`${this.getBaseUrl()}/v1/user/account`, {
+        headers: {
+          'Authorization': `Bearer ${this.getApiKey()}`,
+        },
+      });
+      return response.ok;
+    } catch (error) {
+      console.warn('Stability provider not available:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Generate images with the Stable Image API (one request per image)
+   */
+  async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (!this.config.enabled || !this.getApiKey()) {
+      throw this.createError('PROVIDER_NOT_CONFIGURED', 'Stability provider is not configured');
+    }
+
+    this.validateRequest(request);
+
+    const requestId = uuidv4();
+    const sanitizedPrompt = this.sanitizePrompt(request.prompt);
+    const count = Math.min(request.count || 1, this.getMaxImageCount());
+    const format = request.format || 'png';
+
+    const images: GeneratedImage[] = [];
+    for (let index = 0; index < count; index++) {
+      // Stability accepts seeds in [0, 4294967294]; negative seeds wrap around
+      const seed = request.seed !== undefined
+        ? (((request.seed + index) % 4294967295) + 4294967295) % 4294967295
+        : undefined;
+      images.push(await this.executeWithRetry(
+        () => this.generateSingleImage(sanitizedPrompt, request, format, seed),
+        'generate image'
+      ));
+    }
+
+    return {
+      success: true,
+      images,
+      provider: this.name,
+      requestId,
+    };
+  }
+
+  /**
+   * Run one generation request
+   */
+  private async generateSingleImage(
+    prompt: string,
+    request: ImageGenerationRequest,
+    format: string,
+    seed: number | undefined
+  ): Promise<GeneratedImage> {
+    const endpoint = this.getEndpoint();
+
+    const form = new FormData();
+    form.append('prompt', prompt);
+    form.append('output_format', format);
+    form.append('aspect_ratio', this.mapDimensionsToAspectRatio(request.dimensions));
+
+    if (request.negativePrompt) {
+      form.append('negative_prompt', request.negativePrompt);
+    }
+    if (seed !== undefined) {
+      form.append('seed', String(seed));
+    }
+    if (endpoint === 'sd3') {
+      form.append('model', this.config.model);
+    }
+
+    const stylePreset = this.getStylePreset(request.style);
+    if (stylePreset && endpoint !== 'ultra') {
+      form.append('style_preset', stylePreset);
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetch(`${this.getBaseUrl()}/v2beta/stable-image/generate/${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.getApiKey()}`,
+          'Accept': 'image/*',
+        },
+        body: form,
+      });
+    } catch (error: any) {
+      throw this.createError('NETWORK_ERROR', `Stability API request failed: ${error.message}`, { error });
+    }
+
+    if (!response.ok) {
+      throw await this.createResponseError(response);
+    }
+
+    if (response.headers.get('finish-reason') === 'CONTENT_FILTERED') {
+      throw this.createError('CONTENT_POLICY_VIOLATION', 'Image was blocked by the Stability content filter');
+    }
+
+    let imageBuffer: Buffer = Buffer.from(await response.arrayBuffer());
+    if (imageBuffer.length === 0) {
+      throw this.createError('INVALID_RESPONSE', 'Empty image data received');
+    }
+
+    // Aspect ratios are approximate, crop to the exact requested size
+    const metadata = await sharp(imageBuffer).metadata();
+    let dimensions = { width: metadata.width || 1024, height: metadata.height || 1024 };
+    if (request.dimensions &&
+        (request.dimensions.width !== dimensions.width || request.dimensions.height !== dimensions.height)) {
+      imageBuffer = await sharp(imageBuffer)
+        .resize(request.dimensions.width, request.dimensions.height, { fit: 'cover' })
+        .toFormat(format as keyof sharp.FormatEnum)
+        .toBuffer();
+      dimensions = request.dimensions;
+    }
+
+    const base64 = imageBuffer.toString('base64');
+    const responseSeed = Number(response.headers.get('seed'));
+
+    return {
+      url: `data:image/${format};base64,${base64}`,
+      base64,
+      format,
+      dimensions,
+      size: imageBuffer.length,
+      metadata: {
+        prompt,
+        style: request.style || 'realistic',
+        provider: this.name,
+        generatedAt: new Date(),
+        model: this.config.model,
+        seed: Number.isFinite(responseSeed) && response.headers.has('seed') ? responseSeed : seed,
+      },
+    };
+  }
+
+  /**
+   * Map an error response to a provider error
+   */
+  private async createResponseError(response: Response) {
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Non-JSON error body
+    }
+
+    const detail = Array.isArray(body?.errors) ? body.errors.join('; ') : body?.message || response.statusText;
+
+    switch (response.status) {
+      case 400:
+      case 413:
+      case 422:
+        return this.createError('INVALID_REQUEST', `Stability API rejected the request: ${detail}`, { body });
+      case 401:
+        return this.createError('AUTHENTICATION_FAILED', 'Invalid Stability API key');
+      case 402:
+        return this.createError('QUOTA_EXCEEDED', 'Stability account has insufficient credits');
+      case 403:
+        return body?.name === 'content_moderation'
+          ? this.createError('CONTENT_POLICY_VIOLATION', 'Content violates Stability content policy')
+          : this.createError('PERMISSION_DENIED', `Access denied by Stability API: ${detail}`);
+      case 429:
+        return this.createError('RATE_LIMIT_EXCEEDED', 'Stability API rate limit exceeded');
+      default:
+        return this.createError('API_ERROR', `Stability API error ${response.status}: ${detail}`, { body });
+    }
+  }
+
+  /**
+   * Pick the closest supported aspect ratio
+   */
+  private mapDimensionsToAspectRatio(dimensions?: { width: number; height: number } | undefined): string {
+    if (!dimensions) return '1:1';
+
+    const target = Math.log(dimensions.width / dimensions.height);
+    let best = '1:1';
+    let bestDistance = Infinity;
+
+    for (const ratio of ASPECT_RATIOS) {
+      const [w, h] = ratio.split(':').map(Number) as [number, number];
+      const distance = Math.abs(Math.log(w / h) - target);
+      if (distance < bestDistance) {
+        best = ratio;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Configured preset wins over the one derived from the style
+   */
+  private getStylePreset(style?: ImageStyle | undefined): string | undefined {
+    return this.config.stylePreset || (style ? STYLE_PRESETS[style] : undefined);
+  }
+
+  /**
+   * API endpoint for the configured model (`core`, `ultra`, or `sd3` for SD3 models)
+   */
+  private getEndpoint(): string {
+    return this.config.model.startsWith('sd3') ? 'sd3' : this.config.model;
+  }
+
+  /**
+   * Base URL without trailing slash
+   */
+  private getBaseUrl(): string {
+    return this.config.baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * API key, or a placeholder when replaying recorded traffic without one
+   */
+  private getApiKey(): string | undefined {
+    return this.config.apiKey || (this.config.recording.mode === 'replay' ? 'replay' : undefined);
+  }
+
+  /**
+   * Get supported formats
+   */
+  override getSupportedFormats(): string[] {
+    return ['png', 'jpeg', 'webp'];
+  }
+
+  /**
+   * Get supported dimensions (native sizes of the 1:1, 16:9 and 9:16 aspect ratios)
+   */
+  override getSupportedDimensions(): { width: number; height: number }[] {
+    return [
+      { width: 1024, height: 1024 },
+      { width: 1344, height: 768 },
+      { width: 768, height: 1344 },
+      { width: 1216, height: 832 },
+      { width: 832, height: 1216 },
+    ];
+  }
+
+  /**
+   * Get maximum image count (sent as separate requests)
+   */
+  override getMaxImageCount(): number {
+    return 4;
+  }
+
+  /**
+   * Check if provider supports feature
+   */
+  override supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean {
+    switch (feature) {
+      case 'generation':
+        return true;
+      case 'description':
+      case 'tagging':
+        return false;
+      case 'transparency':
+      case 'logo':
+        return false; // No alpha channel in Stable Image output
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<StabilityConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.fetch = createProviderFetch(this.name, this.config.recording, [this.config.apiKey]);
+  }
+
+  /**
+   * Get current configuration (without sensitive data)
+   */
+  getConfig(): Omit<StabilityConfig, 'apiKey'> {
+    const { apiKey, ...safeConfig } = this.config;
+    return safeConfig;
+  }
+}
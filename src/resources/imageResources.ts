@@ -0,0 +1,169 @@
+import fs from 'fs-extra';
+import mime from 'mime-types';
+import { getLibrary } from '../library/imageLibrary.js';
+import { getCache } from '../cache/imageCache.js';
+import type { LibraryEntry } from '../types/index.js';
+
+/**
+ * URI of the JSON listing of all generated images (subscribe to it to hear about new images)
+ */
+export const LIBRARY_RESOURCE_URI = 'image://generated';
+
+/**
+ * MCP resource description
+ */
+export interface ImageResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * MCP resource contents
+ */
+export type ImageResourceContents =
+  | { uri: string; mimeType: string; blob: string }
+  | { uri: string; mimeType: string; text: string };
+
+/**
+ * Build the resource URI of a generated image
+ */
+export function getGeneratedImageUri(requestId: string, index: number): string {
+  return `${LIBRARY_RESOURCE_URI}/${encodeURIComponent(requestId)}/${index}`;
+}
+
+/**
+ * Build the resource URI of a cached image
+ */
+export function getCachedImageUri(key: string, index: number): string {
+  return `image://cached/${encodeURIComponent(key)}/${index}`;
+}
+
+/**
+ * Resource templates for clients that construct URIs themselves
+ */
+export function listImageResourceTemplates(): Array<{ uriTemplate: string; name: string; description: string }> {
+  return [
+    {
+      uriTemplate: `${LIBRARY_RESOURCE_URI}/{requestId}/{index}`,
+      name: 'Generated image',
+      description: 'Image from a generate_image or generate_logo result',
+    },
+    {
+      uriTemplate: 'image://cached/{key}/{index}',
+      name: 'Cached image',
+      description: 'Image stored in the generation cache',
+    },
+  ];
+}
+
+/**
+ * List all generated and cached images as resources
+ */
+export async function listImageResources(): Promise<ImageResource[]> {
+  const resources: ImageResource[] = [];
+
+  const library = getLibrary();
+  if (library) {
+    resources.push({
+      uri: LIBRARY_RESOURCE_URI,
+      name: 'Generated images',
+      description: 'JSON listing of every image in the library',
+      mimeType: 'application/json',
+    });
+
+    const entries = (await library.getEntries())
+      .filter(entry => entry.filePath)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    for (const entry of entries) {
+      resources.push({
+        uri: getGeneratedImageUri(entry.requestId, entry.index),
+        name: truncate(entry.prompt, 80),
+        description: `${entry.provider}/${entry.model}, ${entry.dimensions.width}x${entry.dimensions.height}, ${entry.createdAt}`,
+        mimeType: getMimeType(entry.format),
+      });
+    }
+  }
+
+  const cache = getCache();
+  if (cache) {
+    for (const entry of await cache.getEntries()) {
+      entry.images.forEach((image, index) => {
+        resources.push({
+          uri: getCachedImageUri(entry.key, index),
+          name: truncate(image.metadata.prompt, 80),
+          description: `Cached ${image.metadata.provider} image, ${image.dimensions.width}x${image.dimensions.height}`,
+          mimeType: getMimeType(image.format),
+        });
+      });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Read a resource by URI. Returns null for unknown URIs.
+ */
+export async function readImageResource(uri: string): Promise<ImageResourceContents | null> {
+  if (uri === LIBRARY_RESOURCE_URI) {
+    const library = getLibrary();
+    if (!library) return null;
+
+    const entries = (await library.getEntries()).map(entry => ({
+      ...entry,
+      uri: getGeneratedImageUri(entry.requestId, entry.index),
+    }));
+
+    return { uri, mimeType: 'application/json', text: JSON.stringify(entries, null, 2) };
+  }
+
+  const match = uri.match(/^image:\/\/(generated|cached)\/([^/]+)\/(\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, kind, encodedId, indexText] = match as unknown as [string, string, string, string];
+  const id = decodeURIComponent(encodedId);
+  const index = parseInt(indexText, 10);
+
+  if (kind === 'generated') {
+    const entry = await getLibrary()?.getEntry(id, index);
+    return entry ? readLibraryImage(uri, entry) : null;
+  }
+
+  const cached = await getCache()?.readImage(id, index);
+  return cached
+    ? { uri, mimeType: getMimeType(cached.format), blob: cached.data.toString('base64') }
+    : null;
+}
+
+/**
+ * Read the saved file of a library entry
+ */
+async function readLibraryImage(uri: string, entry: LibraryEntry): Promise<ImageResourceContents | null> {
+  if (!entry.filePath || !(await fs.pathExists(entry.filePath))) {
+    return null;
+  }
+
+  const data = await fs.readFile(entry.filePath);
+  const mimeType = mime.lookup(entry.filePath) || getMimeType(entry.format);
+
+  return { uri, mimeType, blob: data.toString('base64') };
+}
+
+/**
+ * Get mime type for an image format
+ */
+function getMimeType(format: string): string {
+  return mime.lookup(format) || 'application/octet-stream';
+}
+
+/**
+ * Shorten text for resource names
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
@@ -107,6 +107,12 @@ class InstallationWizard {
         features: ['Image Generation', 'Image Description', 'Image Tagging', 'Logo Creation'],
         requirements: 'HuggingFace API Key',
       },
+      stability: {
+        name: 'Stability AI',
+        description: 'Stable Image Core, Ultra and SD3 through the Stability REST API',
+        features: ['Image Generation', 'Negative Prompts', 'Style Presets'],
+        requirements: 'Stability AI API Key',
+      },
     };
 
     // Display provider information
@@ -130,6 +136,10 @@ class InstallationWizard {
           name: `${providerInfo.huggingface.name} - Open source models, more customizable`,
           value: 'huggingface',
         },
+        {
+          name: `${providerInfo.stability.name} - Stable Image models with style presets`,
+          value: 'stability',
+        },
       ],
       validate: (input: any) => {
         if (input.length === 0) {
@@ -149,20 +159,22 @@ class InstallationWizard {
     console.log(chalk.blue.bold('\n🔑 Provider Configuration'));
 
     for (const providerName of this.options.providers) {
-      await this.configureProvider(providerName as 'chatgpt' | 'huggingface');
+      await this.configureProvider(providerName as 'chatgpt' | 'huggingface' | 'stability');
     }
   }
 
   /**
    * Configure individual provider
    */
-  private async configureProvider(provider: 'chatgpt' | 'huggingface'): Promise<void> {
+  private async configureProvider(provider: 'chatgpt' | 'huggingface' | 'stability'): Promise<void> {
     console.log(chalk.white.bold(`\n⚙️  Configuring ${provider.toUpperCase()}`));
 
     if (provider === 'chatgpt') {
       await this.configureChatGPT();
     } else if (provider === 'huggingface') {
       await this.configureHuggingFace();
+    } else if (provider === 'stability') {
+      await this.configureStability();
     }
   }
 
@@ -257,6 +269,50 @@ class InstallationWizard {
     process.env.HUGGINGFACE_ENABLED = 'true';
   }
 
+  /**
+   * Configure Stability AI provider
+   */
+  private async configureStability(): Promise<void> {
+    console.log(chalk.gray('Stability AI keys can be obtained from: https://platform.stability.ai/account/keys'));
+    
+    const questions = [
+      {
+        type: 'password',
+        name: 'apiKey',
+        message: 'Enter your Stability AI API key:',
+        mask: '*',
+        validate: (input: string) => {
+          if (!input || input.trim().length === 0) {
+            return 'API key is required';
+          }
+          if (!input.startsWith('sk-')) {
+            return 'Stability AI API keys should start with "sk-"';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'list',
+        name: 'model',
+        message: 'Which model would you like to use?',
+        choices: [
+          { name: 'Stable Image Core (Recommended) - Fast and affordable', value: 'core' },
+          { name: 'Stable Image Ultra - Highest quality', value: 'ultra' },
+          { name: 'Stable Diffusion 3.5 Large', value: 'sd3.5-large' },
+          { name: 'Stable Diffusion 3.5 Medium', value: 'sd3.5-medium' },
+        ],
+        default: 'core',
+      },
+    ];
+
+    const answers = await (inquirer.prompt as any)(questions);
+    
+    // Store in environment for immediate use
+    process.env.STABILITY_API_KEY = answers.apiKey;
+    process.env.STABILITY_MODEL = answers.model;
+    process.env.STABILITY_ENABLED = 'true';
+  }
+
   /**
    * Configure general settings
    */
@@ -368,7 +424,7 @@ class InstallationWizard {
       
       try {
         // Test provider availability
-        const result = await this.testProvider(providerName as 'chatgpt' | 'huggingface');
+        const result = await this.testProvider(providerName as 'chatgpt' | 'huggingface' | 'stability');
         results.push(result);
         
         if (result.configured) {
@@ -414,7 +470,7 @@ class InstallationWizard {
   /**
    * Test individual provider
    */
-  private async testProvider(provider: 'chatgpt' | 'huggingface'): Promise<ProviderSetupResult> {
+  private async testProvider(provider: 'chatgpt' | 'huggingface' | 'stability'): Promise<ProviderSetupResult> {
     try {
       if (provider === 'chatgpt') {
         // Test OpenAI API
@@ -443,6 +499,21 @@ class InstallationWizard {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
         
+        return { provider, configured: true };
+
+      } else if (provider === 'stability') {
+        // Test Stability AI API at the configured base URL (gateways and proxies included)
+        const { baseUrl } = (await configManager.loadConfig()).providers.stability;
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/v1/user/account`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.STABILITY_API_KEY}`,
+          },
+        });
+        
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        
         return { provider, configured: true };
       }
       
@@ -504,6 +575,11 @@ class InstallationWizard {
       'HUGGINGFACE_ENABLED=true',
       'HUGGINGFACE_MODEL=stabilityai/stable-diffusion-xl-base-1.0',
       '',
+      '# Stability AI Configuration',
+      'STABILITY_API_KEY=your-stability-api-key-here',
+      'STABILITY_ENABLED=true',
+      'STABILITY_MODEL=core',
+      '',
       '# General Settings',
       `OUTPUT_DIRECTORY=${this.options.outputDirectory}`,
       `CACHE_ENABLED=${this.options.enableCache}`,
@@ -5,22 +5,43 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { 
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
   Tool
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Configuration and core systems
 import configManager from './config/config.js';
 import { initializeCache } from './cache/imageCache.js';
+import { initializeStorage } from './storage/imageStorage.js';
+import { initializeLibrary } from './library/imageLibrary.js';
 import { providerManager } from './providers/providerManager.js';
+import {
+  LIBRARY_RESOURCE_URI,
+  getGeneratedImageUri,
+  listImageResources,
+  listImageResourceTemplates,
+  readImageResource,
+} from './resources/imageResources.js';
+import { listImagePrompts, renderImagePrompt } from './prompts/imagePrompts.js';
 
 // Tools
 import { generateImageTool, handleGenerateImage } from './tools/generateImage.js';
 import { generateLogoTool, handleGenerateLogo } from './tools/generateLogo.js';
 import { describeImageTool, handleDescribeImage } from './tools/describeImage.js';
 import { tagImageTool, handleTagImage } from './tools/tagImage.js';
+import { searchImagesTool, handleSearchImages } from './tools/searchImages.js';
+import { compareProvidersTool, handleCompareProviders } from './tools/compareProviders.js';
 
 // Types
-import type { McpToolResponse } from './types/index.js';
+import type { McpToolResponse, LibraryEntry } from './types/index.js';
 
 /**
  * Image Generation MCP Server
@@ -29,6 +50,7 @@ import type { McpToolResponse } from './types/index.js';
 class ImageGenerationServer {
   private server: Server;
   private availableTools: Tool[] = [];
+  private resourceSubscriptions: Set<string> = new Set();
 
   constructor() {
     this.server = new Server(
@@ -39,6 +61,11 @@ class ImageGenerationServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
         },
       }
     );
@@ -57,6 +84,69 @@ class ImageGenerationServer {
       };
     });
 
+    // List generated and cached images
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await listImageResources(),
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: listImageResourceTemplates(),
+      };
+    });
+
+    // Read a single image (or the library listing)
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const contents = await readImageResource(request.params.uri);
+
+      if (!contents) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${request.params.uri}`);
+      }
+
+      return {
+        contents: [contents],
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // List reusable prompt templates
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: listImagePrompts(),
+      };
+    });
+
+    // Render a prompt template into a tool call
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      let prompt;
+
+      try {
+        prompt = renderImagePrompt(request.params.name, request.params.arguments);
+      } catch (error: any) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${request.params.name}`);
+      }
+
+      return {
+        description: prompt.description,
+        messages: prompt.messages,
+      };
+    });
+
     // Handle tool calls
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
@@ -81,6 +171,14 @@ class ImageGenerationServer {
             result = await handleTagImage(args as any);
             break;
 
+          case 'search_images':
+            result = await handleSearchImages(args as any);
+            break;
+
+          case 'compare_providers':
+            result = await handleCompareProviders(args as any);
+            break;
+
           default:
             return {
               content: [
@@ -93,6 +191,19 @@ class ImageGenerationServer {
             };
         }
 
+        // Image tools return a short summary plus the images themselves
+        if (result.success && result.summary) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: result.summary,
+              },
+              ...(result.images || []),
+            ],
+          };
+        }
+
         // Format successful response
         if (result.success) {
           return {
@@ -101,6 +212,7 @@ class ImageGenerationServer {
                 type: 'text',
                 text: JSON.stringify(result.data, null, 2),
               },
+              ...(result.images || []),
             ],
           };
         } else {
@@ -151,6 +263,15 @@ class ImageGenerationServer {
         console.log('⚠️  Cache disabled');
       }
 
+      // Initialize output storage
+      const storage = initializeStorage(config.output);
+      console.log(`✅ Output directory: ${storage.getDirectory()}`);
+
+      // Initialize image library and announce new images as resources
+      const library = initializeLibrary(config.output);
+      library.onRecord(entries => this.notifyNewImages(entries));
+      console.log('✅ Image library initialized');
+
       // Wait for providers to initialize
       await this.initializeProviders();
 
@@ -165,13 +286,33 @@ class ImageGenerationServer {
     }
   }
 
+  /**
+   * Send resource notifications for newly recorded images
+   */
+  private notifyNewImages(entries: LibraryEntry[]): void {
+    const uris = [
+      LIBRARY_RESOURCE_URI,
+      ...entries.map(entry => getGeneratedImageUri(entry.requestId, entry.index)),
+    ];
+
+    const notifications: Promise<void>[] = [this.server.sendResourceListChanged()];
+    for (const uri of uris) {
+      if (this.resourceSubscriptions.has(uri)) {
+        notifications.push(this.server.sendResourceUpdated({ uri }));
+      }
+    }
+
+    Promise.all(notifications).catch(error => {
+      console.warn('Failed to send resource notifications:', error);
+    });
+  }
+
   /**
    * Initialize providers and check availability
    */
   private async initializeProviders(): Promise<void> {
     try {
-      // Give providers time to initialize
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await providerManager.ready();
 
       const stats = await providerManager.getProviderStats();
       console.log(`✅ Providers initialized: ${stats.availableProviders}/${stats.totalProviders} available`);
@@ -179,7 +320,8 @@ class ImageGenerationServer {
       // Log provider details
       for (const provider of stats.providerInfo) {
         const status = provider.available ? '✅' : '❌';
-        console.log(`  ${status} ${provider.name}: ${provider.features.join(', ')}`);
+        const reason = !provider.available && provider.health.lastError ? ` (${provider.health.lastError})` : '';
+        console.log(`  ${status} ${provider.name}: ${provider.features.join(', ')}${reason}`);
       }
 
       if (stats.availableProviders === 0) {
@@ -203,6 +345,8 @@ class ImageGenerationServer {
       { tool: generateLogoTool, required: capabilities.canGenerateLogos },
       { tool: describeImageTool, required: capabilities.canDescribe },
       { tool: tagImageTool, required: capabilities.canTag },
+      { tool: searchImagesTool, required: true },
+      { tool: compareProvidersTool, required: capabilities.canGenerate },
     ];
 
     // Add tools that have available providers
@@ -0,0 +1,588 @@
+/**
+ * Embeds generation provenance (prompt, provider, model, seed...) into image files
+ * and reads it back.
+ *
+ * - PNG: one tEXt chunk per field (iTXt when the value is not Latin-1)
+ * - JPEG: XMP packet in an APP1 segment
+ * - WebP: XMP packet in an `XMP ` chunk of an extended (VP8X) container
+ */
+
+import zlib from 'zlib';
+import fs from 'fs-extra';
+import { writeFileAtomic } from '../utils/fileSystem.js';
+import type { GeneratedImage, ImageMetadata } from '../types/index.js';
+
+const SOFTWARE = 'image-for-me-dear-ai';
+const XMP_NAMESPACE = 'https://github.com/bramato/ImageForMeDearAi/ns/1.0/';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Metadata fields written to image files, in order
+ */
+const METADATA_FIELDS = ['prompt', 'revisedPrompt', 'style', 'provider', 'model', 'seed', 'generatedAt'] as const;
+
+type MetadataField = typeof METADATA_FIELDS[number];
+
+/**
+ * Sidecar file contents
+ */
+export interface MetadataSidecar {
+  software: string;
+  format: string;
+  dimensions: GeneratedImage['dimensions'];
+  metadata: ImageMetadata;
+}
+
+/**
+ * Embed metadata into image bytes. Unsupported formats are returned unchanged.
+ */
+export function embedImageMetadata(data: Buffer, metadata: ImageMetadata): Buffer {
+  const fields = toFieldRecord(metadata);
+
+  switch (detectImageFormat(data)) {
+    case 'png':
+      return embedPngText(data, fields);
+    case 'jpeg':
+      return embedJpegXmp(data, buildXmpPacket(fields));
+    case 'webp':
+      return embedWebpXmp(data, buildXmpPacket(fields));
+    default:
+      return data;
+  }
+}
+
+/**
+ * Read embedded metadata from image bytes
+ */
+export function readImageMetadata(data: Buffer): ImageMetadata | null {
+  let fields: Record<string, string> | null = null;
+
+  switch (detectImageFormat(data)) {
+    case 'png':
+      fields = readPngText(data);
+      break;
+    case 'jpeg': {
+      const xmp = readJpegXmp(data);
+      fields = xmp ? parseXmpPacket(xmp) : null;
+      break;
+    }
+    case 'webp': {
+      const xmp = readWebpXmp(data);
+      fields = xmp ? parseXmpPacket(xmp) : null;
+      break;
+    }
+  }
+
+  return fields ? fromFieldRecord(fields) : null;
+}
+
+/**
+ * Read metadata for an image file, from the file itself or its sidecar
+ */
+export async function readImageMetadataFromFile(filePath: string): Promise<ImageMetadata | null> {
+  const embedded = readImageMetadata(await fs.readFile(filePath));
+  if (embedded) {
+    return embedded;
+  }
+
+  const sidecar = await readMetadataSidecar(filePath);
+  return sidecar?.metadata || null;
+}
+
+/**
+ * Get sidecar path for an image file
+ */
+export function getSidecarPath(filePath: string): string {
+  return `${filePath}.json`;
+}
+
+/**
+ * Write JSON sidecar next to an image file
+ */
+export async function writeMetadataSidecar(filePath: string, image: GeneratedImage): Promise<void> {
+  const sidecar: MetadataSidecar = {
+    software: SOFTWARE,
+    format: image.format,
+    dimensions: image.dimensions,
+    metadata: image.metadata,
+  };
+
+  await writeFileAtomic(getSidecarPath(filePath), JSON.stringify(sidecar, null, 2));
+}
+
+/**
+ * Read JSON sidecar of an image file
+ */
+export async function readMetadataSidecar(filePath: string): Promise<MetadataSidecar | null> {
+  try {
+    const sidecar = await fs.readJson(getSidecarPath(filePath)) as MetadataSidecar;
+    const metadata = fromFieldRecord(sidecar.metadata as unknown as Record<string, unknown>);
+    return metadata ? { ...sidecar, metadata } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect image format from magic bytes
+ */
+export function detectImageFormat(data: Buffer): 'png' | 'jpeg' | 'webp' | null {
+  if (data.length >= 8 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+/**
+ * Flatten metadata into string fields
+ */
+function toFieldRecord(metadata: ImageMetadata): Record<MetadataField, string | undefined> {
+  return {
+    prompt: metadata.prompt,
+    revisedPrompt: metadata.revisedPrompt,
+    style: metadata.style,
+    provider: metadata.provider,
+    model: metadata.model,
+    seed: metadata.seed !== undefined ? String(metadata.seed) : undefined,
+    generatedAt: new Date(metadata.generatedAt).toISOString(),
+  };
+}
+
+/**
+ * Rebuild metadata from string fields
+ */
+function fromFieldRecord(fields: Record<string, unknown>): ImageMetadata | null {
+  if (typeof fields.prompt !== 'string' || typeof fields.provider !== 'string') {
+    return null;
+  }
+
+  const seed = fields.seed !== undefined ? Number(fields.seed) : undefined;
+
+  return {
+    prompt: fields.prompt,
+    style: typeof fields.style === 'string' ? fields.style : '',
+    provider: fields.provider,
+    model: typeof fields.model === 'string' ? fields.model : '',
+    generatedAt: fields.generatedAt ? new Date(String(fields.generatedAt)) : new Date(0),
+    seed: seed !== undefined && Number.isFinite(seed) ? seed : undefined,
+    revisedPrompt: typeof fields.revisedPrompt === 'string' ? fields.revisedPrompt : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+/**
+ * Insert text chunks right after IHDR, replacing chunks previously written by us
+ */
+function embedPngText(data: Buffer, fields: Record<MetadataField, string | undefined>): Buffer {
+  const keywords = new Set<string>(['Software', ...METADATA_FIELDS]);
+  const chunks = readPngChunks(data).filter(chunk =>
+    !((chunk.type === 'tEXt' || chunk.type === 'iTXt') && keywords.has(readPngKeyword(chunk.data)))
+  );
+
+  const textChunks: Buffer[] = [createPngTextChunk('Software', SOFTWARE)];
+  for (const field of METADATA_FIELDS) {
+    const value = fields[field];
+    if (value !== undefined) {
+      textChunks.push(createPngTextChunk(field, value));
+    }
+  }
+
+  const parts: Buffer[] = [PNG_SIGNATURE];
+  for (const chunk of chunks) {
+    parts.push(chunk.raw);
+    if (chunk.type === 'IHDR') {
+      parts.push(...textChunks);
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Read tEXt/iTXt chunks into a record
+ */
+function readPngText(data: Buffer): Record<string, string> | null {
+  const fields: Record<string, string> = {};
+
+  for (const chunk of readPngChunks(data)) {
+    if (chunk.type === 'tEXt') {
+      const separator = chunk.data.indexOf(0);
+      if (separator > 0) {
+        fields[chunk.data.toString('latin1', 0, separator)] = chunk.data.toString('latin1', separator + 1);
+      }
+    } else if (chunk.type === 'iTXt') {
+      const parsed = parseITxt(chunk.data);
+      if (parsed) {
+        fields[parsed.keyword] = parsed.text;
+      }
+    }
+  }
+
+  return fields.Software === SOFTWARE ? fields : null;
+}
+
+/**
+ * Split PNG into chunks
+ */
+function readPngChunks(data: Buffer): Array<{ type: string; data: Buffer; raw: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer; raw: Buffer }> = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const end = offset + 12 + length;
+    if (end > data.length) break;
+
+    chunks.push({
+      type: data.toString('ascii', offset + 4, offset + 8),
+      data: data.subarray(offset + 8, offset + 8 + length),
+      raw: data.subarray(offset, end),
+    });
+
+    offset = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Read keyword of a text chunk
+ */
+function readPngKeyword(chunkData: Buffer): string {
+  const separator = chunkData.indexOf(0);
+  return separator > 0 ? chunkData.toString('latin1', 0, separator) : '';
+}
+
+/**
+ * Create tEXt chunk, or iTXt when the value needs UTF-8
+ */
+function createPngTextChunk(keyword: string, value: string): Buffer {
+  const isLatin1 = /^[\x20-\x7e\xa0-\xff\n]*$/.test(value);
+
+  const body = isLatin1
+    ? Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(value, 'latin1')])
+    : Buffer.concat([
+      Buffer.from(keyword, 'latin1'),
+      // null separator, compression flag, compression method, empty language tag, empty translated keyword
+      Buffer.from([0, 0, 0, 0, 0]),
+      Buffer.from(value, 'utf8'),
+    ]);
+
+  return createPngChunk(isLatin1 ? 'tEXt' : 'iTXt', body);
+}
+
+/**
+ * Parse iTXt chunk data
+ */
+function parseITxt(chunkData: Buffer): { keyword: string; text: string } | null {
+  const keywordEnd = chunkData.indexOf(0);
+  if (keywordEnd <= 0) return null;
+
+  const compressed = chunkData[keywordEnd + 1] === 1;
+  const languageEnd = chunkData.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd >= 0 ? chunkData.indexOf(0, languageEnd + 1) : -1;
+  if (translatedEnd < 0) return null;
+
+  const textData = chunkData.subarray(translatedEnd + 1);
+
+  try {
+    return {
+      keyword: chunkData.toString('latin1', 0, keywordEnd),
+      text: (compressed ? zlib.inflateSync(textData) : textData).toString('utf8'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create PNG chunk with length and CRC
+ */
+function createPngChunk(type: string, body: Buffer): Buffer {
+  const typeBuffer = Buffer.from(type, 'ascii');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([typeBuffer, body])));
+
+  return Buffer.concat([length, typeBuffer, body, crc]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 as used by PNG
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ---------------------------------------------------------------------------
+// XMP
+// ---------------------------------------------------------------------------
+
+/**
+ * Build XMP packet holding the metadata fields
+ */
+function buildXmpPacket(fields: Record<MetadataField, string | undefined>): string {
+  const attributes = METADATA_FIELDS
+    .filter(field => fields[field] !== undefined)
+    .map(field => `\n    ifm:${field}="${escapeXml(fields[field] as string)}"`)
+    .join('');
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `  <rdf:Description rdf:about=""`,
+    `    xmlns:xmp="http://ns.adobe.com/xap/1.0/"`,
+    `    xmlns:ifm="${XMP_NAMESPACE}"`,
+    `    xmp:CreatorTool="${SOFTWARE}"${attributes}/>`,
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+/**
+ * Parse fields written by buildXmpPacket
+ */
+function parseXmpPacket(xmp: string): Record<string, string> | null {
+  if (!xmp.includes(XMP_NAMESPACE)) {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const match of xmp.matchAll(/ifm:(\w+)="([^"]*)"/g)) {
+    fields[match[1] as string] = unescapeXml(match[2] as string);
+  }
+
+  return fields;
+}
+
+/**
+ * Escape XML attribute value
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
+
+/**
+ * Unescape XML attribute value
+ */
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#10;/g, '\n')
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+// ---------------------------------------------------------------------------
+// JPEG
+// ---------------------------------------------------------------------------
+
+/**
+ * Insert XMP APP1 segment after the leading JFIF/Exif segments
+ */
+function embedJpegXmp(data: Buffer, xmp: string): Buffer {
+  const payload = Buffer.concat([Buffer.from(XMP_JPEG_HEADER, 'latin1'), Buffer.from(xmp, 'utf8')]);
+  if (payload.length + 2 > 0xffff) {
+    console.warn('XMP metadata too large for a JPEG APP1 segment, skipping');
+    return data;
+  }
+
+  const segment = Buffer.alloc(4);
+  segment.writeUInt16BE(0xffe1, 0);
+  segment.writeUInt16BE(payload.length + 2, 2);
+
+  const kept: Buffer[] = [];
+  let insertAt = 0;
+  let offset = 2;
+
+  // Walk the APPn segments, dropping an existing XMP segment
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1] as number;
+    if (marker < 0xe0 || marker > 0xef) break;
+
+    const end = offset + 2 + data.readUInt16BE(offset + 2);
+    const isXmp = marker === 0xe1 && data.toString('latin1', offset + 4, offset + 4 + XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER;
+
+    if (!isXmp) {
+      kept.push(data.subarray(offset, end));
+      if (marker === 0xe0 || marker === 0xe1) {
+        insertAt = kept.length;
+      }
+    }
+
+    offset = end;
+  }
+
+  return Buffer.concat([
+    data.subarray(0, 2),
+    ...kept.slice(0, insertAt),
+    segment,
+    payload,
+    ...kept.slice(insertAt),
+    data.subarray(offset),
+  ]);
+}
+
+/**
+ * Find XMP packet in JPEG APP1 segments
+ */
+function readJpegXmp(data: Buffer): string | null {
+  let offset = 2;
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1] as number;
+    if (marker === 0xda) break; // Start of scan
+
+    const end = offset + 2 + data.readUInt16BE(offset + 2);
+    const headerEnd = offset + 4 + XMP_JPEG_HEADER.length;
+
+    if (marker === 0xe1 && data.toString('latin1', offset + 4, headerEnd) === XMP_JPEG_HEADER) {
+      return data.toString('utf8', headerEnd, end);
+    }
+
+    offset = end;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// WebP
+// ---------------------------------------------------------------------------
+
+/**
+ * Add XMP chunk, converting simple WebP files to the extended format
+ */
+function embedWebpXmp(data: Buffer, xmp: string): Buffer {
+  const chunks = readRiffChunks(data).filter(chunk => chunk.type !== 'XMP ');
+  let vp8x = chunks.find(chunk => chunk.type === 'VP8X');
+
+  if (!vp8x) {
+    const info = readWebpCanvas(chunks);
+    if (!info) {
+      console.warn('Unrecognized WebP bitstream, skipping metadata');
+      return data;
+    }
+
+    const body = Buffer.alloc(10);
+    body[0] = info.alpha ? 0x10 : 0;
+    body.writeUIntLE(info.width - 1, 4, 3);
+    body.writeUIntLE(info.height - 1, 7, 3);
+    vp8x = { type: 'VP8X', data: body };
+    chunks.unshift(vp8x);
+  } else {
+    vp8x.data = Buffer.from(vp8x.data);
+  }
+
+  // XMP metadata flag
+  vp8x.data[0] = (vp8x.data[0] as number) | 0x04;
+  chunks.push({ type: 'XMP ', data: Buffer.from(xmp, 'utf8') });
+
+  const body = Buffer.concat([Buffer.from('WEBP', 'ascii'), ...chunks.map(chunk => createRiffChunk(chunk.type, chunk.data))]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Find XMP chunk in WebP file
+ */
+function readWebpXmp(data: Buffer): string | null {
+  const chunk = readRiffChunks(data).find(c => c.type === 'XMP ');
+  return chunk ? chunk.data.toString('utf8') : null;
+}
+
+/**
+ * Split WebP RIFF container into chunks
+ */
+function readRiffChunks(data: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const size = data.readUInt32LE(offset + 4);
+    const start = offset + 8;
+    if (start + size > data.length) break;
+
+    chunks.push({ type: data.toString('ascii', offset, offset + 4), data: data.subarray(start, start + size) });
+    offset = start + size + (size % 2);
+  }
+
+  return chunks;
+}
+
+/**
+ * Create RIFF chunk (padded to even length)
+ */
+function createRiffChunk(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, 'ascii');
+  header.writeUInt32LE(body.length, 4);
+
+  return Buffer.concat(body.length % 2 ? [header, body, Buffer.from([0])] : [header, body]);
+}
+
+/**
+ * Read canvas size from a simple (VP8/VP8L) WebP bitstream
+ */
+function readWebpCanvas(chunks: Array<{ type: string; data: Buffer }>): { width: number; height: number; alpha: boolean } | null {
+  const lossy = chunks.find(chunk => chunk.type === 'VP8 ');
+  if (lossy && lossy.data.length >= 10) {
+    return {
+      width: lossy.data.readUInt16LE(6) & 0x3fff,
+      height: lossy.data.readUInt16LE(8) & 0x3fff,
+      alpha: false,
+    };
+  }
+
+  const lossless = chunks.find(chunk => chunk.type === 'VP8L');
+  if (lossless && lossless.data.length >= 5 && lossless.data[0] === 0x2f) {
+    const bits = lossless.data.readUInt32LE(1);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      alpha: ((bits >>> 28) & 1) === 1,
+    };
+  }
+
+  return null;
+}
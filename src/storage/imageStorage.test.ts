@@ -0,0 +1,109 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { ImageStorage } from './imageStorage.js';
+import type { GeneratedImage, ImageGenerationRequest, ImageGenerationResult, OutputConfig } from '../types/index.js';
+
+const GENERATED_AT = new Date('2026-10-19T08:30:15Z');
+
+async function createImage(color: string): Promise<GeneratedImage> {
+  const data = await sharp({ create: { width: 8, height: 8, channels: 3, background: color } }).png().toBuffer();
+  return {
+    url: `data:image/png;base64,${data.toString('base64')}`,
+    base64: data.toString('base64'),
+    format: 'png',
+    dimensions: { width: 8, height: 8 },
+    size: data.length,
+    metadata: {
+      prompt: 'Café x/y',
+      style: 'cartoon',
+      provider: 'p',
+      generatedAt: GENERATED_AT,
+      model: 'model-1',
+      seed: 7,
+    },
+  };
+}
+
+function createResult(images: GeneratedImage[]): ImageGenerationResult {
+  return { success: true, images, provider: 'p', requestId: 'req-1' };
+}
+
+describe('ImageStorage', () => {
+  const request: ImageGenerationRequest = { prompt: 'Café x/y', seed: 7 };
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  function createStorage(naming: string): ImageStorage {
+    const config: OutputConfig = { directory, format: 'png', naming, embedMetadata: false, sidecar: false, previewSize: 512 };
+    return new ImageStorage(config);
+  }
+
+  describe('renderFileName', () => {
+    it('expands naming tokens into folders and a file name', async () => {
+      const image = await createImage('#ff0000');
+      const storage = createStorage('{{date}}/{{provider}}/{{prompt-slug}}-{{seed}}-{{index}}');
+
+      const fileName = storage.renderFileName({ image, request, result: createResult([image]), index: 2, data: Buffer.from(image.base64!, 'base64') });
+
+      expect(fileName).toBe(path.join('2026-10-19', 'p', 'cafe-x-y-7-2.png'));
+    });
+
+    it('keeps files inside the output directory', async () => {
+      const image = await createImage('#ff0000');
+      const storage = createStorage('../../{{model}}/./name');
+
+      const fileName = storage.renderFileName({ image, request, result: createResult([image]), index: 0, data: Buffer.alloc(0) });
+
+      expect(fileName).toBe(path.join('model-1', 'name.png'));
+    });
+
+    it('uses the default file name for a template ending in a folder', async () => {
+      const image = await createImage('#ff0000');
+      const storage = createStorage('{{style}}/');
+
+      const fileName = storage.renderFileName({ image, request, result: createResult([image]), index: 0, data: Buffer.alloc(0) });
+
+      expect(fileName).toMatch(new RegExp(`^cartoon[\\\\/]${GENERATED_AT.getTime()}-[0-9a-f]{12}\\.png$`));
+    });
+  });
+
+  describe('saveResult', () => {
+    it('gives images that render to the same name their own files', async () => {
+      const images = [await createImage('#ff0000'), await createImage('#0000ff')];
+      const storage = createStorage('{{date}}/{{provider}}/{{prompt-slug}}');
+
+      const saved = await storage.saveResult(createResult(images), request);
+      const paths = saved.images.map(image => image.localPath);
+
+      expect(paths).toEqual([
+        path.join(directory, '2026-10-19', 'p', 'cafe-x-y.png'),
+        path.join(directory, '2026-10-19', 'p', 'cafe-x-y-1.png'),
+      ]);
+      for (const [index, image] of saved.images.entries()) {
+        expect((await fs.readFile(image.localPath!)).toString('base64')).toBe(images[index]!.base64);
+      }
+    });
+
+    it('does not overwrite files when saves run concurrently', async () => {
+      const images = [await createImage('#ff0000'), await createImage('#00ff00'), await createImage('#0000ff')];
+      const storage = createStorage('fixed-name');
+
+      const saved = await Promise.all(images.map(image => storage.saveResult(createResult([image]), request)));
+      const paths = saved.map(result => result.images[0]!.localPath!);
+
+      expect(new Set(paths).size).toBe(3);
+      for (const [index, filePath] of paths.entries()) {
+        expect((await fs.readFile(filePath)).toString('base64')).toBe(images[index]!.base64);
+      }
+    });
+  });
+});
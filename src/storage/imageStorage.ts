@@ -0,0 +1,246 @@
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import { writeFileAtomic } from '../utils/fileSystem.js';
+import { embedImageMetadata, writeMetadataSidecar } from './imageMetadata.js';
+import type {
+  OutputConfig,
+  GeneratedImage,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+} from '../types/index.js';
+
+/**
+ * Values available to the output naming template
+ */
+export interface NamingContext {
+  image: GeneratedImage;
+  request: ImageGenerationRequest;
+  result: ImageGenerationResult;
+  index: number;
+  data: Buffer;
+}
+
+const DEFAULT_NAMING = '{{timestamp}}-{{hash}}';
+
+/**
+ * Supported naming template tokens
+ */
+const NAMING_TOKENS: Record<string, (context: NamingContext) => string> = {
+  timestamp: ({ image }) => String(new Date(image.metadata.generatedAt).getTime()),
+  date: ({ image }) => new Date(image.metadata.generatedAt).toISOString().slice(0, 10),
+  time: ({ image }) => new Date(image.metadata.generatedAt).toISOString().slice(11, 19).replace(/:/g, ''),
+  hash: ({ data }) => crypto.createHash('sha256').update(data).digest('hex').slice(0, 12),
+  provider: ({ image, result }) => image.metadata.provider || result.provider,
+  model: ({ image }) => image.metadata.model,
+  style: ({ image }) => image.metadata.style,
+  seed: ({ image, request }) => String(image.metadata.seed ?? request.seed ?? 'random'),
+  'prompt-slug': ({ request }) => slugify(request.prompt).slice(0, 48),
+  index: ({ index }) => String(index),
+  requestId: ({ result }) => result.requestId,
+  format: ({ image }) => image.format,
+};
+
+/**
+ * Writes generated images to the configured output directory
+ */
+export class ImageStorage {
+  private config: OutputConfig;
+  private directory: string;
+
+  constructor(config: OutputConfig) {
+    this.config = config;
+    this.directory = path.resolve(process.cwd(), config.directory);
+  }
+
+  /**
+   * Persist every image of a generation result and fill in `localPath`.
+   * Failures are logged and leave the image without a local copy.
+   */
+  async saveResult(
+    result: ImageGenerationResult,
+    request: ImageGenerationRequest
+  ): Promise<ImageGenerationResult> {
+    if (!result.success) {
+      return result;
+    }
+
+    // One after another, so images sharing a file name get their counters in order
+    const images: GeneratedImage[] = [];
+    for (const [index, image] of result.images.entries()) {
+      // Cached results already point at a saved copy
+      if (image.localPath && await fs.pathExists(image.localPath)) {
+        images.push(image);
+        continue;
+      }
+
+      try {
+        const localPath = await this.saveImage({
+          image,
+          request,
+          result,
+          index,
+          data: await this.getImageData(image),
+        });
+
+        images.push({ ...image, localPath });
+      } catch (error) {
+        console.warn(`Failed to save image ${index} of request ${result.requestId}:`, error);
+        images.push(image);
+      }
+    }
+
+    return { ...result, images };
+  }
+
+  /**
+   * Save a single image and return its absolute path
+   */
+  async saveImage(context: NamingContext): Promise<string> {
+    const relativePath = this.renderFileName(context);
+    const filePath = await this.reservePath(path.join(this.directory, relativePath));
+
+    let data = context.data;
+    if (this.config.embedMetadata) {
+      try {
+        data = embedImageMetadata(data, context.image.metadata);
+      } catch (error) {
+        console.warn('Failed to embed image metadata, saving without it:', error);
+      }
+    }
+
+    try {
+      await writeFileAtomic(filePath, data);
+    } catch (error) {
+      // Release the reserved name
+      await fs.remove(filePath).catch(() => undefined);
+      throw error;
+    }
+
+    if (this.config.sidecar) {
+      await writeMetadataSidecar(filePath, context.image);
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Render the naming template into a relative file path (including extension)
+   */
+  renderFileName(context: NamingContext): string {
+    let template = this.config.naming || DEFAULT_NAMING;
+
+    // A template ending in a folder gets the default file name
+    if (template.endsWith('/')) {
+      template += DEFAULT_NAMING;
+    }
+
+    const rendered = template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, token: string) => {
+      const resolver = NAMING_TOKENS[token];
+      if (!resolver) {
+        console.warn(`Unknown output naming token: {{${token}}}`);
+        return '';
+      }
+      return sanitizeSegment(resolver(context));
+    });
+
+    // Drop empty and relative segments so files always stay inside the output directory
+    const segments = rendered
+      .split(/[\\/]+/)
+      .map(segment => sanitizeSegment(segment))
+      .filter(segment => segment.length > 0 && segment !== '.' && segment !== '..');
+
+    const format = context.image.format || this.config.format;
+    let fileName = segments.pop() || `${Date.now()}`;
+
+    if (path.extname(fileName).slice(1).toLowerCase() !== format.toLowerCase()) {
+      fileName = `${fileName}.${format}`;
+    }
+
+    return path.join(...segments, fileName);
+  }
+
+  /**
+   * Get output directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Claim the target path by creating it exclusively, appending a counter while it already exists,
+   * so concurrent saves (other requests or processes) never get the same file
+   */
+  private async reservePath(filePath: string): Promise<string> {
+    const extension = path.extname(filePath);
+    const base = filePath.slice(0, filePath.length - extension.length);
+
+    await fs.ensureDir(path.dirname(filePath));
+
+    for (let counter = 0; ; counter++) {
+      const candidate = counter === 0 ? filePath : `${base}-${counter}${extension}`;
+      try {
+        await fs.close(await fs.open(candidate, 'wx'));
+        return candidate;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get raw image bytes for a generated image
+   */
+  private async getImageData(image: GeneratedImage): Promise<Buffer> {
+    if (image.base64) {
+      return Buffer.from(image.base64, 'base64');
+    }
+
+    const response = await fetch(image.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download image: ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Turn free text into a file-name friendly slug
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Strip characters that are unsafe in file names
+ */
+function sanitizeSegment(value: string): string {
+  return value.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+let storageInstance: ImageStorage | null = null;
+
+/**
+ * Initialize the global image storage
+ */
+export function initializeStorage(config: OutputConfig): ImageStorage {
+  storageInstance = new ImageStorage(config);
+  return storageInstance;
+}
+
+/**
+ * Get the global image storage (null before initialization)
+ */
+export function getStorage(): ImageStorage | null {
+  return storageInstance;
+}
+
+export default ImageStorage;
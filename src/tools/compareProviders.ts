@@ -0,0 +1,302 @@
+import { z } from 'zod';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { providerManager } from '../providers/providerManager.js';
+import { getStorage } from '../storage/imageStorage.js';
+import { getLibrary } from '../library/imageLibrary.js';
+import { createContactSheet, type ContactSheetCell } from '../utils/imageContent.js';
+import { formatFileSize } from '../utils/fileSystem.js';
+import type {
+  McpProviderComparisonArgs,
+  McpToolResponse,
+  ImageGenerationRequest,
+  ImageStyle,
+  ProviderComparisonEntry,
+} from '../types/index.js';
+
+// Input validation schema
+const CompareProvidersArgsSchema = z.object({
+  prompt: z.string()
+    .min(1, 'Prompt is required')
+    .max(4000, 'Prompt must be less than 4000 characters'),
+  style: z.enum(['realistic', 'cartoon', 'anime', 'oil-painting', 'watercolor', 'sketch', 'digital-art', 'cyberpunk', 'steampunk', 'minimalist', 'vintage', 'pop-art', 'surreal', 'photographic', 'abstract'] as const).optional().describe('Image style to apply'),
+  width: z.number()
+    .int()
+    .min(64)
+    .max(2048)
+    .optional()
+    .describe('Image width in pixels (64-2048)'),
+  height: z.number()
+    .int()
+    .min(64)
+    .max(2048)
+    .optional()
+    .describe('Image height in pixels (64-2048)'),
+  quality: z.enum(['standard', 'hd'])
+    .optional()
+    .default('standard')
+    .describe('Image quality'),
+  format: z.enum(['png', 'jpeg', 'webp'])
+    .optional()
+    .default('png')
+    .describe('Output image format'),
+  seed: z.number()
+    .int()
+    .optional()
+    .describe('Random seed, passed to every provider'),
+  negativePrompt: z.string()
+    .max(1000)
+    .optional()
+    .describe('Things to avoid in the generated image'),
+  providers: z.array(z.string().min(1))
+    .min(1)
+    .max(20)
+    .optional()
+    .describe('Provider ids to compare (default: all available generation providers)'),
+  cellSize: z.number()
+    .int()
+    .min(64)
+    .max(1024)
+    .optional()
+    .default(256)
+    .describe('Edge of each image in the contact sheet in pixels'),
+  save: z.boolean()
+    .optional()
+    .default(false)
+    .describe('Save the generated images to the output directory and library'),
+});
+
+/**
+ * MCP Tool for comparing generation providers on the same prompt
+ */
+export const compareProvidersTool: Tool = {
+  name: 'compare_providers',
+  description: `Generate the same prompt with every available image generation provider in parallel and compare the results.
+
+Returns a labelled side-by-side contact sheet plus latency, file size, dimensions and errors per provider. Useful when choosing a default provider or checking a new instance against the others.
+
+Each provider generates one image. Failing providers are listed with their error and don't fail the comparison.
+
+Examples:
+- compare_providers({prompt: "A lighthouse at dusk, oil painting"})
+- compare_providers({prompt: "Flat vector fox logo", providers: ["chatgpt", "hf-logos", "stability"]})
+- compare_providers({prompt: "Product shot of a ceramic mug", width: 1024, height: 1024, seed: 42, save: true})`,
+
+  inputSchema: {
+    type: 'object',
+    properties: {
+      prompt: {
+        type: 'string',
+        description: 'Text description of the image to generate',
+        minLength: 1,
+        maxLength: 4000
+      },
+      style: {
+        type: 'string',
+        enum: ['realistic', 'cartoon', 'anime', 'oil-painting', 'watercolor', 'sketch', 'digital-art', 'cyberpunk', 'steampunk', 'minimalist', 'vintage', 'pop-art', 'surreal', 'photographic', 'abstract'],
+        description: 'Image style to apply'
+      },
+      width: {
+        type: 'number',
+        description: 'Image width in pixels (64-2048)',
+        minimum: 64,
+        maximum: 2048
+      },
+      height: {
+        type: 'number',
+        description: 'Image height in pixels (64-2048)',
+        minimum: 64,
+        maximum: 2048
+      },
+      quality: {
+        type: 'string',
+        enum: ['standard', 'hd'],
+        description: 'Image quality',
+        default: 'standard'
+      },
+      format: {
+        type: 'string',
+        enum: ['png', 'jpeg', 'webp'],
+        description: 'Output image format',
+        default: 'png'
+      },
+      seed: {
+        type: 'number',
+        description: 'Random seed passed to every provider, for providers that support seeds'
+      },
+      negativePrompt: {
+        type: 'string',
+        description: 'Things to avoid in the generated image',
+        maxLength: 1000
+      },
+      providers: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Provider ids to compare; defaults to every available generation provider',
+        minItems: 1,
+        maxItems: 20
+      },
+      cellSize: {
+        type: 'number',
+        description: 'Edge of each image in the contact sheet in pixels',
+        minimum: 64,
+        maximum: 1024,
+        default: 256
+      },
+      save: {
+        type: 'boolean',
+        description: 'Save the generated images to the output directory and library',
+        default: false
+      }
+    },
+    required: ['prompt']
+  },
+};
+
+/**
+ * Handle compare providers tool execution
+ */
+export async function handleCompareProviders(args: McpProviderComparisonArgs): Promise<McpToolResponse> {
+  try {
+    // Validate arguments
+    const validatedArgs = CompareProvidersArgsSchema.parse(args);
+
+    const request: ImageGenerationRequest = {
+      prompt: validatedArgs.prompt,
+      style: validatedArgs.style as ImageStyle | undefined,
+      dimensions: validatedArgs.width && validatedArgs.height ?
+        { width: validatedArgs.width, height: validatedArgs.height } : undefined,
+      quality: validatedArgs.quality,
+      count: 1,
+      format: validatedArgs.format,
+      seed: validatedArgs.seed,
+      negativePrompt: validatedArgs.negativePrompt,
+    };
+
+    console.log(`Comparing providers with prompt: "${validatedArgs.prompt}"`);
+
+    const entries = await providerManager.compareProviders(request, validatedArgs.providers);
+    if (entries.length === 0) {
+      return {
+        success: false,
+        error: 'No available providers for image generation. Please check your configuration.',
+      };
+    }
+
+    // Save images to the output directory and library
+    if (validatedArgs.save) {
+      const storage = getStorage();
+      const library = getLibrary();
+      for (const entry of entries) {
+        if (!entry.result?.success) continue;
+        if (storage) {
+          entry.result = await storage.saveResult(entry.result, request);
+        }
+        if (library) {
+          await library.record(entry.result, request);
+        }
+      }
+    }
+
+    const cells: ContactSheetCell[] = entries.map(entry => {
+      const image = entry.result?.images[0];
+      return {
+        label: formatProviderLabel(entry),
+        caption: entry.success && image
+          ? `${formatDuration(entry.durationMs)} · ${formatFileSize(image.size)} · ${image.dimensions.width}x${image.dimensions.height}`
+          : `failed after ${formatDuration(entry.durationMs)}`,
+        image,
+        error: entry.success ? undefined : `${entry.code ? `${entry.code}: ` : ''}${entry.error || 'Generation failed'}`,
+      };
+    });
+    const contactSheet = await createContactSheet(cells, validatedArgs.cellSize);
+
+    const comparison = entries.map(entry => {
+      const image = entry.result?.images[0];
+      return {
+        provider: entry.provider,
+        type: entry.type,
+        success: entry.success,
+        durationMs: entry.durationMs,
+        model: image?.metadata.model,
+        format: image?.format,
+        dimensions: image?.dimensions,
+        size: image ? formatFileSize(image.size) : undefined,
+        localPath: image?.localPath,
+        code: entry.code,
+        error: entry.success ? undefined : entry.error,
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        prompt: validatedArgs.prompt,
+        comparison,
+      },
+      summary: formatComparisonSummary(validatedArgs.prompt, entries),
+      images: [contactSheet],
+    };
+
+  } catch (error: any) {
+    console.error('Compare providers tool error:', error);
+
+    // Handle validation errors
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: `Invalid arguments: ${error.errors.map((e: any) => e.message).join(', ')}`,
+      };
+    }
+
+    return {
+      success: false,
+      error: error.message || 'Unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Provider id with the model that produced the image
+ */
+function formatProviderLabel(entry: ProviderComparisonEntry): string {
+  const model = entry.result?.images[0]?.metadata.model;
+  return model ? `${entry.provider} (${model})` : entry.provider;
+}
+
+/**
+ * Milliseconds as seconds with one decimal
+ */
+function formatDuration(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * One line per provider, fastest successful provider first
+ */
+function formatComparisonSummary(prompt: string, entries: ProviderComparisonEntry[]): string {
+  const succeeded = entries.filter(entry => entry.success).sort((a, b) => a.durationMs - b.durationMs);
+  const failed = entries.filter(entry => !entry.success);
+
+  const lines = [
+    `Compared ${entries.length} provider${entries.length === 1 ? '' : 's'}: ${succeeded.length} succeeded, ${failed.length} failed`,
+    `Prompt: ${prompt}`,
+    '',
+  ];
+
+  for (const entry of succeeded) {
+    const image = entry.result?.images[0];
+    const details = image
+      ? `, ${formatFileSize(image.size)}, ${image.dimensions.width}x${image.dimensions.height} ${image.format}`
+      : '';
+    lines.push(`- ${formatProviderLabel(entry)}: ${formatDuration(entry.durationMs)}${details}`);
+    if (image?.localPath) {
+      lines.push(`  File: ${image.localPath}`);
+    }
+  }
+
+  for (const entry of failed) {
+    lines.push(`- ${entry.provider}: failed after ${formatDuration(entry.durationMs)}${entry.code ? ` [${entry.code}]` : ''} ${entry.error || ''}`.trimEnd());
+  }
+
+  return lines.join('\n');
+}
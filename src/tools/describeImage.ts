@@ -8,9 +8,10 @@ const DescribeImageArgsSchema = z.object({
   imageUrl: z.string()
     .url('Must be a valid URL')
     .describe('URL of the image to describe'),
-  provider: z.enum(['chatgpt', 'huggingface'])
+  provider: z.string()
+    .min(1)
     .optional()
-    .describe('Preferred provider for image description'),
+    .describe('Preferred provider id for image description'),
   detailLevel: z.enum(['brief', 'detailed', 'comprehensive'])
     .optional()
     .default('detailed')
@@ -29,7 +30,9 @@ const DescribeImageArgsSchema = z.object({
  */
 export const describeImageTool: Tool = {
   name: 'describe_image',
-  description: `Analyze and describe images using AI vision models (GPT-4 Vision, BLIP, etc.).
+  description: `Analyze and describe images using AI vision models (GPT-4o, llava, BLIP, etc.).
+
+Detail level, focus and language are passed to prompt-driven models (ChatGPT, Ollama) as instructions; caption models such as BLIP ignore them.
 
 Detail Levels:
 - brief: Short, concise description (1-2 sentences)
@@ -46,8 +49,9 @@ Focus Areas:
 - style: Focus on artistic style, technique, and aesthetic qualities
 
 Providers:
-- ChatGPT: Uses GPT-4 Vision for detailed, contextual descriptions
+- ChatGPT: Uses an OpenAI vision model (gpt-4o by default) for detailed, contextual descriptions
 - HuggingFace: Uses specialized vision models like BLIP for technical descriptions
+- Ollama: Local multimodal models (llava, moondream); images stay on your network
 
 Examples:
 - describe_image({imageUrl: "https://example.com/photo.jpg"})
@@ -64,8 +68,7 @@ Examples:
       },
       provider: {
         type: 'string',
-        enum: ['chatgpt', 'huggingface'],
-        description: 'Provider to use for description'
+        description: 'Provider id to use for description: a built-in provider (chatgpt, huggingface, ollama, procedural) or a configured instance id'
       },
       detailLevel: {
         type: 'string',
@@ -74,16 +77,14 @@ Examples:
         default: 'detailed'
       },
       focus: {
-        type: 'array',
-        items: {
-          type: 'string'
-        },
-        description: 'Specific aspects to focus on'
+        type: 'string',
+        enum: ['general', 'objects', 'people', 'scene', 'colors', 'composition', 'style'],
+        description: 'Specific aspect to focus on'
       },
       language: {
         type: 'string',
         description: 'Language for the description',
-        default: 'en'
+        default: 'english'
       }
     },
     required: ['imageUrl']
@@ -103,7 +104,7 @@ export async function handleDescribeImage(args: McpImageDescriptionArgs): Promis
     if (!capabilities.canDescribe) {
       return {
         success: false,
-        error: 'No providers available for image description. Please configure ChatGPT (GPT-4 Vision) or HuggingFace providers.',
+        error: 'No providers available for image description. Please configure ChatGPT, HuggingFace or Ollama providers.',
       };
     }
 
@@ -121,7 +122,12 @@ export async function handleDescribeImage(args: McpImageDescriptionArgs): Promis
     // Get description from provider
     const result = await providerManager.describeImage(
       validatedArgs.imageUrl,
-      validatedArgs.provider
+      validatedArgs.provider,
+      {
+        detailLevel: validatedArgs.detailLevel,
+        focus: validatedArgs.focus,
+        language: validatedArgs.language,
+      }
     );
 
     if (!result.success) {
@@ -131,20 +137,14 @@ export async function handleDescribeImage(args: McpImageDescriptionArgs): Promis
       };
     }
 
-    // Process and enhance description based on parameters
-    const processedDescription = await processDescription(
-      result.description,
-      validatedArgs,
-      result.provider
-    );
-
     // Analyze description for additional insights
-    const analysis = analyzeDescription(processedDescription);
+    const analysis = analyzeDescription(result.description);
 
     const responseData = {
-      description: processedDescription,
-      originalDescription: result.description,
+      description: result.description,
       provider: result.provider,
+      routing: result.routing,
+      attempts: result.attempts,
       confidence: result.confidence,
       imageInfo: imageValidation.info,
       analysis,
@@ -239,66 +239,6 @@ async function validateImageUrl(imageUrl: string): Promise<{
   }
 }
 
-/**
- * Process description based on parameters
- */
-async function processDescription(
-  description: string,
-  args: any,
-  provider: string
-): Promise<string> {
-  let processedDescription = description;
-
-  // Apply detail level filtering
-  switch (args.detailLevel) {
-    case 'brief':
-      // Extract first 1-2 sentences for brief description
-      const sentences = description.split(/[.!?]+/).filter(s => s.trim().length > 0);
-      processedDescription = sentences.slice(0, 2).join('. ') + (sentences.length > 2 ? '.' : '');
-      break;
-    
-    case 'comprehensive':
-      // Add more context and analysis if description seems short
-      if (description.length < 200) {
-        processedDescription += ' This image would benefit from additional analysis of artistic elements, cultural context, and technical composition details.';
-      }
-      break;
-  }
-
-  // Apply focus filtering (simple keyword-based approach)
-  if (args.focus && args.focus !== 'general') {
-    const focusKeywords = getFocusKeywords(args.focus);
-    const relevantSentences = description.split(/[.!?]+/).filter(sentence => 
-      focusKeywords.some(keyword => 
-        sentence.toLowerCase().includes(keyword.toLowerCase())
-      )
-    );
-
-    if (relevantSentences.length > 0) {
-      const focusDescription = relevantSentences.join('. ') + '.';
-      processedDescription = `Focusing on ${args.focus}: ${focusDescription}`;
-    }
-  }
-
-  return processedDescription.trim();
-}
-
-/**
- * Get keywords for different focus areas
- */
-function getFocusKeywords(focus: string): string[] {
-  const keywordMap: Record<string, string[]> = {
-    objects: ['object', 'item', 'thing', 'furniture', 'tool', 'device', 'equipment'],
-    people: ['person', 'people', 'man', 'woman', 'child', 'face', 'expression', 'clothing', 'hair'],
-    scene: ['setting', 'location', 'place', 'environment', 'background', 'landscape', 'indoor', 'outdoor'],
-    colors: ['color', 'colour', 'red', 'blue', 'green', 'yellow', 'black', 'white', 'bright', 'dark', 'hue', 'tone'],
-    composition: ['composition', 'framing', 'perspective', 'angle', 'layout', 'arrangement', 'balance', 'symmetry'],
-    style: ['style', 'artistic', 'technique', 'aesthetic', 'mood', 'atmosphere', 'feeling', 'art', 'painting', 'photography'],
-  };
-
-  return keywordMap[focus] || [];
-}
-
 /**
  * Analyze description for additional insights
  */
@@ -2,6 +2,9 @@ import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { providerManager } from '../providers/providerManager.js';
 import { getCache } from '../cache/imageCache.js';
+import { getStorage } from '../storage/imageStorage.js';
+import { getLibrary } from '../library/imageLibrary.js';
+import { createImageContent, formatImageSummary } from '../utils/imageContent.js';
 import { getImageStyleNames, isValidStyle, applyStyleToPrompt } from '../config/imageStyles.js';
 import type { 
   McpImageGenerationArgs, 
@@ -39,9 +42,10 @@ const GenerateImageArgsSchema = z.object({
     .optional()
     .default(1)
     .describe('Number of images to generate (1-10)'),
-  provider: z.enum(['chatgpt', 'huggingface'])
+  provider: z.string()
+    .min(1)
     .optional()
-    .describe('Preferred provider for generation'),
+    .describe('Preferred provider id for generation'),
   format: z.enum(['png', 'jpeg', 'webp'])
     .optional()
     .default('png')
@@ -54,6 +58,35 @@ const GenerateImageArgsSchema = z.object({
     .max(1000)
     .optional()
     .describe('Things to avoid in the generated image'),
+  sampler: z.string()
+    .max(100)
+    .optional()
+    .describe('Sampler name (local diffusion only)'),
+  steps: z.number()
+    .int()
+    .min(1)
+    .max(150)
+    .optional()
+    .describe('Sampling steps (local diffusion only)'),
+  cfgScale: z.number()
+    .min(1)
+    .max(30)
+    .optional()
+    .describe('Classifier-free guidance scale (local diffusion only)'),
+  checkpoint: z.string()
+    .max(500)
+    .optional()
+    .describe('Model checkpoint to load (local diffusion only)'),
+  includeImages: z.boolean()
+    .optional()
+    .default(true)
+    .describe('Return the images as image content blocks'),
+  previewSize: z.number()
+    .int()
+    .min(0)
+    .max(4096)
+    .optional()
+    .describe('Maximum edge of returned images in pixels (0 = full resolution)'),
 });
 
 /**
@@ -66,7 +99,7 @@ export const generateImageTool: Tool = {
 Available styles: ${getImageStyleNames().join(', ')}
 
 Features:
-- Multiple AI providers (ChatGPT/DALL-E, HuggingFace/Stable Diffusion)
+- Multiple AI providers (ChatGPT/DALL-E, HuggingFace/Stable Diffusion, Stability AI, self-hosted SD WebUI/ComfyUI, offline procedural renderer)
 - 15+ predefined artistic styles
 - Customizable dimensions and quality
 - Automatic caching for faster subsequent requests
@@ -128,6 +161,41 @@ Examples:
         type: 'string',
         description: 'Things to avoid in the generated image',
         maxLength: 1000
+      },
+      sampler: {
+        type: 'string',
+        description: 'Sampler name, e.g. "Euler a" (WebUI) or "euler_ancestral" (ComfyUI); local diffusion only'
+      },
+      steps: {
+        type: 'number',
+        description: 'Sampling steps (1-150); local diffusion only',
+        minimum: 1,
+        maximum: 150
+      },
+      cfgScale: {
+        type: 'number',
+        description: 'Classifier-free guidance scale (1-30); local diffusion only',
+        minimum: 1,
+        maximum: 30
+      },
+      checkpoint: {
+        type: 'string',
+        description: 'Model checkpoint to load; local diffusion only'
+      },
+      provider: {
+        type: 'string',
+        description: 'Preferred provider id: a built-in provider (chatgpt, huggingface, stability, local, procedural) or a configured instance id'
+      },
+      includeImages: {
+        type: 'boolean',
+        description: 'Return the images as image content blocks',
+        default: true
+      },
+      previewSize: {
+        type: 'number',
+        description: 'Maximum edge of returned images in pixels (0 = full resolution, defaults to output.previewSize)',
+        minimum: 0,
+        maximum: 4096
       }
     },
     required: ['prompt']
@@ -161,14 +229,21 @@ export async function handleGenerateImage(args: McpImageGenerationArgs): Promise
       format: validatedArgs.format,
       seed: validatedArgs.seed,
       negativePrompt: validatedArgs.negativePrompt,
+      sampler: validatedArgs.sampler,
+      steps: validatedArgs.steps,
+      cfgScale: validatedArgs.cfgScale,
+      checkpoint: validatedArgs.checkpoint,
     };
 
-    // Check cache first
+    // Check cache first, results of an explicitly requested provider are cached separately
     const cache = getCache();
+    const cacheScope = validatedArgs.provider
+      ? { provider: validatedArgs.provider, model: providerManager.getProviderModel(validatedArgs.provider) }
+      : undefined;
     let result;
     
     if (cache) {
-      result = await cache.get(request);
+      result = await cache.get(request, cacheScope);
       if (result) {
         console.log('Returning cached image result');
         return {
@@ -177,6 +252,11 @@ export async function handleGenerateImage(args: McpImageGenerationArgs): Promise
             ...result,
             cached: true,
           },
+          cached: true,
+          summary: formatImageSummary(result, { title: 'Generated', cached: true }),
+          images: validatedArgs.includeImages
+            ? await createImageContent(result.images, validatedArgs.previewSize)
+            : undefined,
         };
       }
     }
@@ -193,9 +273,21 @@ export async function handleGenerateImage(args: McpImageGenerationArgs): Promise
       };
     }
 
+    // Save images to the output directory
+    const storage = getStorage();
+    if (storage) {
+      result = await storage.saveResult(result, request);
+    }
+
+    // Record images in the searchable library
+    const library = getLibrary();
+    if (library) {
+      await library.record(result, request);
+    }
+
     // Cache successful result
     if (cache && result.success) {
-      await cache.set(request, result);
+      await cache.set(request, result, cacheScope);
     }
 
     // Format response
@@ -226,6 +318,10 @@ export async function handleGenerateImage(args: McpImageGenerationArgs): Promise
     return {
       success: true,
       data: responseData,
+      summary: formatImageSummary(result, { title: 'Generated' }),
+      images: validatedArgs.includeImages
+        ? await createImageContent(result.images, validatedArgs.previewSize)
+        : undefined,
     };
 
   } catch (error: any) {
@@ -2,6 +2,9 @@ import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { providerManager } from '../providers/providerManager.js';
 import { getCache } from '../cache/imageCache.js';
+import { getStorage } from '../storage/imageStorage.js';
+import { getLibrary } from '../library/imageLibrary.js';
+import { createImageContent, formatImageSummary, hasTransparency } from '../utils/imageContent.js';
 import type { 
   McpLogoGenerationArgs, 
   McpToolResponse,
@@ -44,15 +47,26 @@ const GenerateLogoArgsSchema = z.object({
     .optional()
     .default('transparent')
     .describe('Background color (default: transparent)'),
-  provider: z.enum(['chatgpt', 'huggingface'])
+  provider: z.string()
+    .min(1)
     .optional()
-    .describe('Preferred provider for generation'),
+    .describe('Preferred provider id for generation'),
   industry: z.string()
     .optional()
     .describe('Industry or business type (e.g., "technology", "healthcare", "finance")'),
   businessName: z.string()
     .optional()
     .describe('Business or brand name to include in text-based or combination logos'),
+  includeImages: z.boolean()
+    .optional()
+    .default(true)
+    .describe('Return the images as image content blocks'),
+  previewSize: z.number()
+    .int()
+    .min(0)
+    .max(4096)
+    .optional()
+    .describe('Maximum edge of returned images in pixels (0 = full resolution)'),
 });
 
 /**
@@ -141,6 +155,21 @@ Examples:
         type: 'string',
         description: 'Business name to include in the logo',
         maxLength: 50
+      },
+      provider: {
+        type: 'string',
+        description: 'Preferred provider id: a built-in provider (chatgpt, huggingface, procedural) or a configured instance id'
+      },
+      includeImages: {
+        type: 'boolean',
+        description: 'Return the images as image content blocks',
+        default: true
+      },
+      previewSize: {
+        type: 'number',
+        description: 'Maximum edge of returned images in pixels (0 = full resolution, defaults to output.previewSize)',
+        minimum: 0,
+        maximum: 4096
       }
     },
     required: ['prompt', 'logoType']
@@ -175,26 +204,40 @@ export async function handleGenerateLogo(args: McpLogoGenerationArgs): Promise<M
         height: validatedArgs.height 
       },
       format: 'png', // Always PNG for logos
-      transparent: true, // Always transparent for logos
+      // Providers deliver transparency natively (gpt-image) or by removing the plain background
+      transparent: validatedArgs.backgroundColor === 'transparent',
       quality: 'hd', // High quality for professional use
       count: 1, // Single logo
     };
 
-    // Check cache first
+    // Check cache first, results of an explicitly requested provider are cached separately
     const cache = getCache();
+    const cacheScope = validatedArgs.provider
+      ? { provider: validatedArgs.provider, model: providerManager.getProviderModel(validatedArgs.provider) }
+      : undefined;
     let result;
     
     if (cache) {
-      result = await cache.get(request);
+      result = await cache.get(request, cacheScope);
       if (result) {
         console.log('Returning cached logo result');
+        const transparency = await Promise.all(result.images.map(image => hasTransparency(image)));
         return {
           success: true,
           data: {
             ...result,
             cached: true,
-            logoSpecs: extractLogoSpecs(validatedArgs),
+            logoSpecs: extractLogoSpecs(validatedArgs, transparency),
           },
+          cached: true,
+          summary: formatImageSummary(result, {
+            title: 'Generated logo',
+            cached: true,
+            details: formatLogoDetails(validatedArgs),
+          }),
+          images: validatedArgs.includeImages
+            ? await createImageContent(result.images, validatedArgs.previewSize)
+            : undefined,
         };
       }
     }
@@ -202,9 +245,8 @@ export async function handleGenerateLogo(args: McpLogoGenerationArgs): Promise<M
     // Generate new logo
     console.log(`Generating ${validatedArgs.logoType} logo: "${validatedArgs.prompt}"`);
     
-    // Use best provider for logo generation
-    const logoProvider = await providerManager.getBestProvider('logo');
-    result = await providerManager.generateImage(request, logoProvider?.name);
+    // Use the requested provider, or route as a logo request
+    result = await providerManager.generateImage(request, validatedArgs.provider, 'logo');
 
     if (!result.success) {
       return {
@@ -213,30 +255,47 @@ export async function handleGenerateLogo(args: McpLogoGenerationArgs): Promise<M
       };
     }
 
-    // Validate logo output
-    const validationResult = validateLogoOutput(result, validatedArgs);
+    // Save images to the output directory
+    const storage = getStorage();
+    if (storage) {
+      result = await storage.saveResult(result, request);
+    }
+
+    // Record logo in the searchable library
+    const library = getLibrary();
+    if (library) {
+      await library.record(result, request, {
+        logoType: validatedArgs.logoType,
+        tags: [validatedArgs.style, validatedArgs.industry, validatedArgs.businessName]
+          .filter((tag): tag is string => !!tag),
+      });
+    }
+
+    // Validate logo output; transparency is checked on the pixels, not taken from the request
+    const transparency = await Promise.all(result.images.map(image => hasTransparency(image)));
+    const validationResult = validateLogoOutput(result, validatedArgs, transparency);
     if (!validationResult.valid) {
       console.warn('Logo validation warning:', validationResult.warnings);
     }
 
     // Cache successful result
     if (cache && result.success) {
-      await cache.set(request, result);
+      await cache.set(request, result, cacheScope);
     }
 
     // Format response with logo-specific metadata
     const responseData = {
       ...result,
-      logoSpecs: extractLogoSpecs(validatedArgs),
+      logoSpecs: extractLogoSpecs(validatedArgs, transparency),
       validation: validationResult,
       usage: generateUsageGuidelines(validatedArgs),
-      images: result.images.map(img => ({
+      images: result.images.map((img, index) => ({
         url: img.url,
         localPath: img.localPath,
         format: img.format,
         dimensions: img.dimensions,
         size: formatFileSize(img.size),
-        transparent: true,
+        transparent: transparency[index] ?? false,
         logoType: validatedArgs.logoType,
         metadata: {
           ...img.metadata,
@@ -256,6 +315,16 @@ export async function handleGenerateLogo(args: McpLogoGenerationArgs): Promise<M
     return {
       success: true,
       data: responseData,
+      summary: formatImageSummary(result, {
+        title: 'Generated logo',
+        details: [
+          ...formatLogoDetails(validatedArgs),
+          ...validationResult.warnings.map(warning => `Warning: ${warning}`),
+        ],
+      }),
+      images: validatedArgs.includeImages
+        ? await createImageContent(result.images, validatedArgs.previewSize)
+        : undefined,
     };
 
   } catch (error: any) {
@@ -317,7 +386,7 @@ function buildLogoPrompt(args: any): string {
   
   // Background specification
   if (args.backgroundColor === 'transparent') {
-    parts.push('transparent background', 'PNG format', 'no background');
+    parts.push('isolated on a plain background');
   } else if (args.backgroundColor) {
     parts.push(`background color: ${args.backgroundColor}`);
   }
@@ -345,7 +414,7 @@ function buildLogoPrompt(args: any): string {
 /**
  * Extract logo specifications for metadata
  */
-function extractLogoSpecs(args: any) {
+function extractLogoSpecs(args: any, transparency: boolean[]) {
   return {
     type: args.logoType,
     dimensions: {
@@ -362,14 +431,31 @@ function extractLogoSpecs(args: any) {
     businessName: args.businessName || 'not specified',
     industry: args.industry || 'not specified',
     format: 'PNG',
-    transparent: true,
+    transparent: transparency.length > 0 && transparency.every(Boolean),
   };
 }
 
+/**
+ * Describe the logo specification in the response summary
+ */
+function formatLogoDetails(args: any): string[] {
+  const details = [`Type: ${args.logoType}, style: ${args.style}`];
+
+  const colors = [args.primaryColor, args.secondaryColor].filter(Boolean);
+  if (colors.length > 0) {
+    details.push(`Colors: ${colors.join(', ')} on ${args.backgroundColor || 'transparent'}`);
+  }
+  if (args.businessName) {
+    details.push(`Business name: ${args.businessName}`);
+  }
+
+  return details;
+}
+
 /**
  * Validate logo output quality
  */
-function validateLogoOutput(result: any, args: any) {
+function validateLogoOutput(result: any, args: any, transparency: boolean[]) {
   const warnings: string[] = [];
   
   // Check if format is PNG
@@ -390,6 +476,10 @@ function validateLogoOutput(result: any, args: any) {
     if (width < 256 || height < 256) {
       warnings.push(`Image ${index + 1}: Low resolution may affect scalability`);
     }
+
+    if (args.backgroundColor === 'transparent' && !transparency[index]) {
+      warnings.push(`Image ${index + 1}: Background is not transparent (${result.provider} returned an opaque image), remove it before use`);
+    }
   });
   
   return {
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { getLibrary } from '../library/imageLibrary.js';
+import { getImageStyleNames } from '../config/imageStyles.js';
+import type { McpImageSearchArgs, McpToolResponse, LibraryEntry } from '../types/index.js';
+
+// Input validation schema
+const SearchImagesArgsSchema = z.object({
+  text: z.string()
+    .max(500)
+    .optional()
+    .describe('Words to look for in prompts and tags'),
+  style: z.string()
+    .optional()
+    .describe('Only images generated with this style'),
+  provider: z.string()
+    .optional()
+    .describe('Only images generated by this provider'),
+  logoType: z.enum(['text', 'icon', 'combination'])
+    .optional()
+    .describe('Only logos of this type'),
+  from: z.string()
+    .datetime({ offset: true })
+    .or(z.string().date())
+    .optional()
+    .describe('Only images generated at or after this date (ISO 8601)'),
+  to: z.string()
+    .datetime({ offset: true })
+    .or(z.string().date())
+    .optional()
+    .describe('Only images generated at or before this date (ISO 8601)'),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(20)
+    .describe('Maximum number of results (1-100)'),
+  offset: z.number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe('Number of results to skip'),
+  includeThumbnails: z.boolean()
+    .optional()
+    .default(true)
+    .describe('Include base64 PNG thumbnails'),
+  thumbnailSize: z.number()
+    .int()
+    .min(32)
+    .max(512)
+    .optional()
+    .default(128)
+    .describe('Thumbnail bounding box in pixels (32-512)'),
+});
+
+/**
+ * MCP Tool for searching previously generated images
+ */
+export const searchImagesTool: Tool = {
+  name: 'search_images',
+  description: `Search the local library of images generated by generate_image and generate_logo.
+
+Every generated image is recorded with its prompt, style, provider, model, seed, dimensions, file path and tags.
+
+Filters:
+- text: words that must all appear in the prompt or tags
+- style: one of ${getImageStyleNames().join(', ')}
+- provider: provider that generated the image
+- logoType: text, icon or combination (logos only)
+- from / to: generation date range (ISO 8601)
+
+Results are sorted newest first and include the local file path and, optionally, a small PNG thumbnail.
+
+Examples:
+- search_images({text: "mountain sunset"})
+- search_images({style: "cyberpunk", provider: "chatgpt", limit: 5})
+- search_images({logoType: "icon", from: "2024-01-01"})`,
+
+  inputSchema: {
+    type: 'object',
+    properties: {
+      text: {
+        type: 'string',
+        description: 'Words to look for in prompts and tags',
+        maxLength: 500
+      },
+      style: {
+        type: 'string',
+        enum: getImageStyleNames(),
+        description: 'Only images generated with this style'
+      },
+      provider: {
+        type: 'string',
+        description: 'Only images generated by this provider'
+      },
+      logoType: {
+        type: 'string',
+        enum: ['text', 'icon', 'combination'],
+        description: 'Only logos of this type'
+      },
+      from: {
+        type: 'string',
+        description: 'Only images generated at or after this date (ISO 8601)'
+      },
+      to: {
+        type: 'string',
+        description: 'Only images generated at or before this date (ISO 8601)'
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results',
+        minimum: 1,
+        maximum: 100,
+        default: 20
+      },
+      offset: {
+        type: 'number',
+        description: 'Number of results to skip',
+        minimum: 0,
+        default: 0
+      },
+      includeThumbnails: {
+        type: 'boolean',
+        description: 'Include base64 PNG thumbnails',
+        default: true
+      },
+      thumbnailSize: {
+        type: 'number',
+        description: 'Thumbnail bounding box in pixels',
+        minimum: 32,
+        maximum: 512,
+        default: 128
+      }
+    },
+    required: []
+  },
+};
+
+/**
+ * Handle search images tool execution
+ */
+export async function handleSearchImages(args: McpImageSearchArgs): Promise<McpToolResponse> {
+  try {
+    // Validate arguments
+    const validatedArgs = SearchImagesArgsSchema.parse(args || {});
+
+    const library = getLibrary();
+    if (!library) {
+      return {
+        success: false,
+        error: 'Image library is not initialized',
+      };
+    }
+
+    const { total, entries } = await library.search({
+      text: validatedArgs.text,
+      style: validatedArgs.style,
+      provider: validatedArgs.provider,
+      logoType: validatedArgs.logoType,
+      from: validatedArgs.from ? new Date(validatedArgs.from) : undefined,
+      to: validatedArgs.to ? endOfDay(validatedArgs.to) : undefined,
+      limit: validatedArgs.limit,
+      offset: validatedArgs.offset,
+    });
+
+    const results = await Promise.all(entries.map(async entry => ({
+      ...entry,
+      fileExists: entry.filePath ? await fs.pathExists(entry.filePath) : false,
+      thumbnail: validatedArgs.includeThumbnails
+        ? await createThumbnail(entry, validatedArgs.thumbnailSize)
+        : undefined,
+    })));
+
+    return {
+      success: true,
+      data: {
+        total,
+        returned: results.length,
+        offset: validatedArgs.offset,
+        results,
+      },
+    };
+
+  } catch (error: any) {
+    console.error('Search images tool error:', error);
+
+    // Handle validation errors
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: `Invalid arguments: ${error.errors.map((e: any) => e.message).join(', ')}`,
+      };
+    }
+
+    return {
+      success: false,
+      error: error.message || 'Unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Date-only upper bounds include the whole day
+ */
+function endOfDay(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Create base64 PNG thumbnail for a library entry
+ */
+async function createThumbnail(entry: LibraryEntry, size: number): Promise<string | undefined> {
+  if (!entry.filePath || !(await fs.pathExists(entry.filePath))) {
+    return undefined;
+  }
+
+  try {
+    const thumbnail = await sharp(entry.filePath)
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .png()
+      .toBuffer();
+
+    return `data:image/png;base64,${thumbnail.toString('base64')}`;
+  } catch (error) {
+    console.warn(`Failed to create thumbnail for ${entry.filePath}:`, error);
+    return undefined;
+  }
+}
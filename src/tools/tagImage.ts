@@ -1,16 +1,18 @@
 import { z } from 'zod';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { providerManager } from '../providers/providerManager.js';
-import type { McpImageTaggingArgs, McpToolResponse, ImageTag } from '../types/index.js';
+import { createAnnotatedImageContent } from '../utils/imageContent.js';
+import type { McpImageTaggingArgs, McpToolResponse, McpImageContent, ImageTag } from '../types/index.js';
 
 // Input validation schema
 const TagImageArgsSchema = z.object({
   imageUrl: z.string()
     .url('Must be a valid URL')
     .describe('URL of the image to tag'),
-  provider: z.enum(['huggingface'])
+  provider: z.string()
+    .min(1)
     .optional()
-    .describe('Preferred provider for image tagging'),
+    .describe('Preferred provider id for image tagging'),
   maxTags: z.number()
     .int()
     .min(1)
@@ -36,6 +38,29 @@ const TagImageArgsSchema = z.object({
     .optional()
     .default('english')
     .describe('Language for tag labels'),
+  labels: z.array(z.string().min(1))
+    .min(2)
+    .max(200)
+    .optional()
+    .describe('Candidate labels for zero-shot tagging'),
+  labelSet: z.string()
+    .min(1)
+    .optional()
+    .describe('Name of a configured label set for zero-shot tagging'),
+  mode: z.enum(['classification', 'detection'])
+    .optional()
+    .default('classification')
+    .describe('classification tags the whole image, detection locates objects with bounding boxes'),
+  annotate: z.boolean()
+    .optional()
+    .default(false)
+    .describe('Return a preview with the detected bounding boxes drawn (detection mode)'),
+  previewSize: z.number()
+    .int()
+    .min(0)
+    .max(4096)
+    .optional()
+    .describe('Maximum edge of the annotated preview in pixels (0 = full resolution)'),
 });
 
 /**
@@ -52,6 +77,7 @@ Features:
 - Color analysis (optional)
 - Multi-language support
 - Hierarchical tag organization
+- Object detection with normalized bounding boxes and an optional annotated preview
 
 Tag Categories:
 - objects: Physical items, tools, furniture, etc.
@@ -66,7 +92,9 @@ Tag Categories:
 - art: Artistic elements, styles, mediums
 
 Providers:
-- HuggingFace: Uses specialized vision models (ViT, ResNet, etc.) for accurate object classification
+- HuggingFace: Uses specialized vision models (ViT, ResNet, etc.) for accurate object classification; with labels or labelSet, scores your own labels with a zero-shot CLIP model
+- ChatGPT: OpenAI vision model with structured JSON output; follows maxTags, categories and language
+- Ollama: Local multimodal models (llava, moondream) with structured JSON output; images stay on your network
 
 Output includes:
 - Tag labels with confidence scores
@@ -78,7 +106,12 @@ Output includes:
 Examples:
 - tag_image({imageUrl: "https://example.com/photo.jpg"})
 - tag_image({imageUrl: "https://example.com/food.jpg", categories: ["food"], maxTags: 5})
-- tag_image({imageUrl: "https://example.com/scene.jpg", minConfidence: 0.3, includeColors: true})`,
+- tag_image({imageUrl: "https://example.com/scene.jpg", minConfidence: 0.3, includeColors: true})
+- tag_image({imageUrl: "https://example.com/chair.jpg", labels: ["armchair", "sofa", "stool"], provider: "huggingface"})
+- tag_image({imageUrl: "https://example.com/item.jpg", labelSet: "products"})
+- tag_image({imageUrl: "https://example.com/room.jpg", mode: "detection", annotate: true})
+
+Detection mode (HuggingFace DETR-style models) adds a boundingBox to each tag: x, y, width and height as fractions (0-1) of the image size, measured from the top left corner.`,
   
   inputSchema: {
     type: 'object',
@@ -90,8 +123,7 @@ Examples:
       },
       provider: {
         type: 'string',
-        enum: ['huggingface'],
-        description: 'Provider to use for tagging'
+        description: 'Provider id to use for tagging: a built-in provider (chatgpt, huggingface, ollama, procedural) or a configured instance id'
       },
       maxTags: {
         type: 'number',
@@ -122,7 +154,36 @@ Examples:
       language: {
         type: 'string',
         description: 'Language for tag labels',
-        default: 'en'
+        default: 'english'
+      },
+      labels: {
+        type: 'array',
+        items: {
+          type: 'string'
+        },
+        minItems: 2,
+        description: 'Candidate labels to score with zero-shot classification (HuggingFace), instead of the model\'s own classes'
+      },
+      labelSet: {
+        type: 'string',
+        description: 'Name of a label set configured in providers.huggingface.labelSets, used like labels'
+      },
+      mode: {
+        type: 'string',
+        enum: ['classification', 'detection'],
+        description: 'classification tags the whole image; detection locates objects and returns normalized bounding boxes',
+        default: 'classification'
+      },
+      annotate: {
+        type: 'boolean',
+        description: 'In detection mode, also return a preview image with the bounding boxes drawn',
+        default: false
+      },
+      previewSize: {
+        type: 'number',
+        description: 'Maximum edge of the annotated preview in pixels (0 = full resolution, defaults to output.previewSize)',
+        minimum: 0,
+        maximum: 4096
       }
     },
     required: ['imageUrl']
@@ -142,7 +203,7 @@ export async function handleTagImage(args: McpImageTaggingArgs): Promise<McpTool
     if (!capabilities.canTag) {
       return {
         success: false,
-        error: 'No providers available for image tagging. Please configure HuggingFace provider.',
+        error: 'No providers available for image tagging. Please configure the ChatGPT, HuggingFace or Ollama provider.',
       };
     }
 
@@ -160,7 +221,15 @@ export async function handleTagImage(args: McpImageTaggingArgs): Promise<McpTool
     // Get tags from provider
     const result = await providerManager.tagImage(
       validatedArgs.imageUrl,
-      validatedArgs.provider
+      validatedArgs.provider,
+      {
+        maxTags: validatedArgs.maxTags,
+        categories: validatedArgs.categories,
+        language: validatedArgs.language,
+        labels: validatedArgs.labels,
+        labelSet: validatedArgs.labelSet,
+        mode: validatedArgs.mode,
+      }
     );
 
     if (!result.success) {
@@ -186,20 +255,32 @@ export async function handleTagImage(args: McpImageTaggingArgs): Promise<McpTool
       colorTags = await extractColorTags(validatedArgs.imageUrl);
     }
 
+    // Draw detected objects onto a preview
+    let images: McpImageContent[] | undefined;
+    if (validatedArgs.annotate && validatedArgs.mode === 'detection') {
+      images = await createAnnotatedPreview(validatedArgs.imageUrl, processedTags, validatedArgs.previewSize);
+    }
+
     const responseData = {
       tags: processedTags,
       colorTags,
       totalTags: result.tags.length,
       filteredTags: processedTags.length,
       provider: result.provider,
+      routing: result.routing,
+      attempts: result.attempts,
       analysis,
       imageInfo: imageValidation.info,
+      imageDimensions: result.imageDimensions,
       parameters: {
         maxTags: validatedArgs.maxTags,
         minConfidence: validatedArgs.minConfidence,
         categories: validatedArgs.categories,
         includeColors: validatedArgs.includeColors,
         language: validatedArgs.language,
+        labels: validatedArgs.labels,
+        labelSet: validatedArgs.labelSet,
+        mode: validatedArgs.mode,
       },
       capabilities: await providerManager.getCapabilities(),
     };
@@ -207,6 +288,7 @@ export async function handleTagImage(args: McpImageTaggingArgs): Promise<McpTool
     return {
       success: true,
       data: responseData,
+      images,
     };
 
   } catch (error: any) {
@@ -227,6 +309,28 @@ export async function handleTagImage(args: McpImageTaggingArgs): Promise<McpTool
   }
 }
 
+/**
+ * Download the image and draw the tag bounding boxes; no preview if it cannot be loaded
+ */
+async function createAnnotatedPreview(
+  imageUrl: string,
+  tags: ImageTag[],
+  previewSize?: number
+): Promise<McpImageContent[] | undefined> {
+  try {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    return [await createAnnotatedImageContent(data, tags, previewSize)];
+  } catch (error) {
+    console.warn('Failed to create annotated preview:', error);
+    return undefined;
+  }
+}
+
 /**
  * Validate image URL and check accessibility
  */
@@ -299,8 +403,9 @@ async function processTags(
   // Filter by confidence threshold
   processedTags = processedTags.filter(tag => tag.confidence >= args.minConfidence);
 
-  // Filter by categories if specified
-  if (args.categories && args.categories.length > 0) {
+  // Filter by categories if specified; caller-supplied labels are already the wanted vocabulary
+  const zeroShot = !!(args.labels || args.labelSet);
+  if (!zeroShot && args.categories && args.categories.length > 0) {
     processedTags = processedTags.filter(tag => {
       const tagCategory = tag.category || categorizeTag(tag.label);
       return args.categories.includes(tagCategory);
@@ -3,16 +3,18 @@
  */
 
 export interface ImageProvider {
-  name: string;
+  name: string; // instance id, used to address the provider
+  type: string; // built-in ProviderType or a plugin type
   generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
-  describeImage?(imageUrl: string): Promise<ImageDescriptionResult>;
-  tagImage?(imageUrl: string): Promise<ImageTaggingResult>;
+  describeImage?(imageUrl: string, options?: ImageDescriptionOptions): Promise<ImageDescriptionResult>;
+  tagImage?(imageUrl: string, options?: ImageTaggingOptions): Promise<ImageTaggingResult>;
   isAvailable(): Promise<boolean>;
-  supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'transparency' | 'logo'): boolean;
+  supportsFeature(feature: 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo'): boolean;
   getSupportedFormats(): string[];
   getMaxImageCount(): number;
   getInfo(): {
     name: string;
+    type: string;
     supportedFormats: string[];
     supportedDimensions: { width: number; height: number }[];
     maxImageCount: number;
@@ -30,6 +32,11 @@ export interface ImageGenerationRequest {
   transparent?: boolean | undefined;
   negativePrompt?: string | undefined;
   seed?: number | undefined;
+  // Sampling controls, honoured by providers that expose them (local diffusion)
+  sampler?: string | undefined;
+  steps?: number | undefined;
+  cfgScale?: number | undefined;
+  checkpoint?: string | undefined;
 }
 
 export interface ImageGenerationResult {
@@ -38,6 +45,8 @@ export interface ImageGenerationResult {
   provider: string;
   requestId: string;
   cached?: boolean;
+  routing?: RoutingDecision | undefined;
+  attempts?: ProviderAttempt[] | undefined;
   error?: string;
 }
 
@@ -61,18 +70,50 @@ export interface ImageMetadata {
   revisedPrompt?: string | undefined;
 }
 
+export type DescriptionDetailLevel = 'brief' | 'detailed' | 'comprehensive';
+
+export type DescriptionFocus = 'general' | 'objects' | 'people' | 'scene' | 'colors' | 'composition' | 'style';
+
+/**
+ * describe_image parameters, turned into instructions by prompt-driven providers
+ */
+export interface ImageDescriptionOptions {
+  detailLevel?: DescriptionDetailLevel | undefined;
+  focus?: DescriptionFocus | undefined;
+  language?: string | undefined;
+}
+
 export interface ImageDescriptionResult {
   success: boolean;
   description: string;
   confidence?: number;
   provider: string;
+  routing?: RoutingDecision | undefined;
+  attempts?: ProviderAttempt[] | undefined;
   error?: string;
 }
 
+/**
+ * Hints from tag_image; providers that cannot follow them are filtered by the tool afterwards
+ */
+export interface ImageTaggingOptions {
+  maxTags?: number | undefined;
+  categories?: string[] | undefined;
+  language?: string | undefined;
+  // Candidate labels for zero-shot classification, given directly or as a configured label set
+  labels?: string[] | undefined;
+  labelSet?: string | undefined;
+  // 'detection' locates objects and returns bounding boxes
+  mode?: 'classification' | 'detection' | undefined;
+}
+
 export interface ImageTaggingResult {
   success: boolean;
   tags: ImageTag[];
   provider: string;
+  imageDimensions?: ImageDimensions | undefined; // size of the analysed image, for detection results
+  routing?: RoutingDecision | undefined;
+  attempts?: ProviderAttempt[] | undefined;
   error?: string;
 }
 
@@ -80,6 +121,17 @@ export interface ImageTag {
   label: string;
   confidence: number;
   category?: string;
+  boundingBox?: BoundingBox | undefined;
+}
+
+/**
+ * Object location as fractions (0-1) of the image width and height, from the top left corner
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface ImageDimensions {
@@ -108,6 +160,11 @@ export interface ServerConfig {
   providers: {
     chatgpt: ChatGPTConfig;
     huggingface: HuggingFaceConfig;
+    stability: StabilityConfig;
+    local: LocalDiffusionConfig;
+    ollama: OllamaConfig;
+    procedural: ProceduralConfig;
+    instances: Array<ProviderInstanceConfig | PluginInstanceConfig>;
   };
   cache: CacheConfig;
   server: {
@@ -115,11 +172,13 @@ export interface ServerConfig {
     version: string;
     port?: number | undefined;
   };
-  output: {
-    directory: string;
-    format: string;
-    naming: string;
-  };
+  output: OutputConfig;
+  routing: RoutingConfig;
+  health: HealthConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  fallback: FallbackConfig;
+  prompts: PromptTemplate[];
+  plugins: string[];
 }
 
 export interface ChatGPTConfig {
@@ -128,7 +187,28 @@ export interface ChatGPTConfig {
   model: string;
   baseUrl?: string | undefined;
   organization?: string | undefined;
+  outputCompression?: number | undefined;
+  visionModel: string;
+  describePrompt?: string | undefined;
+  azure?: AzureOpenAIConfig | undefined;
   timeout: number;
+  recording: RecordingConfig;
+}
+
+/**
+ * Azure OpenAI settings; Azure mode is on when `endpoint` is set
+ */
+export interface AzureOpenAIConfig {
+  endpoint?: string | undefined;
+  apiVersion: string;
+  imageDeployment?: string | undefined;
+  visionDeployment?: string | undefined;
+  auth: 'api-key' | 'entra';
+  apiKey?: string | undefined;
+  tenantId?: string | undefined;
+  clientId?: string | undefined;
+  clientSecret?: string | undefined;
+  adToken?: string | undefined;
 }
 
 export interface HuggingFaceConfig {
@@ -136,7 +216,201 @@ export interface HuggingFaceConfig {
   apiKey?: string | undefined;
   model: string;
   endpoint?: string | undefined;
+  taggingModel: string;
+  detectionModel: string;
+  zeroShotModel: string;
+  hypothesisTemplate: string;
+  labelSets: Record<string, string[]>;
   timeout: number;
+  recording: RecordingConfig;
+}
+
+export interface StabilityConfig {
+  enabled: boolean;
+  apiKey?: string | undefined;
+  model: string;
+  baseUrl: string;
+  stylePreset?: string | undefined;
+  timeout: number;
+  recording: RecordingConfig;
+}
+
+export interface LocalDiffusionConfig {
+  enabled: boolean;
+  backend: 'webui' | 'comfyui';
+  baseUrl: string;
+  auth?: string | undefined;
+  checkpoint?: string | undefined;
+  sampler?: string | undefined;
+  scheduler: string;
+  steps: number;
+  cfgScale: number;
+  workflow?: string | Record<string, unknown> | undefined;
+  pollInterval: number;
+  timeout: number;
+  recording: RecordingConfig;
+}
+
+export interface OllamaConfig {
+  enabled: boolean;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  maxImageSize: number;
+  keepAlive?: string | undefined;
+  timeout: number;
+  recording: RecordingConfig;
+}
+
+export interface RecordingConfig {
+  mode: 'off' | 'record' | 'replay';
+  directory: string;
+}
+
+export interface ProceduralConfig {
+  enabled: boolean;
+  timeout: number;
+}
+
+export type ProviderType = 'chatgpt' | 'huggingface' | 'stability' | 'local' | 'ollama' | 'procedural';
+
+/**
+ * Additional provider instance, addressed by its id
+ */
+export type ProviderInstanceConfig =
+  | ({ id: string; type: 'chatgpt' } & ChatGPTConfig)
+  | ({ id: string; type: 'huggingface' } & HuggingFaceConfig)
+  | ({ id: string; type: 'stability' } & StabilityConfig)
+  | ({ id: string; type: 'local' } & LocalDiffusionConfig)
+  | ({ id: string; type: 'ollama' } & OllamaConfig)
+  | ({ id: string; type: 'procedural' } & ProceduralConfig);
+
+/**
+ * Instance of a plugin provider, settings are validated by the plugin
+ */
+export interface PluginInstanceConfig {
+  id: string;
+  type: string;
+  enabled: boolean;
+  [setting: string]: unknown;
+}
+
+export type ProviderFeature = 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'transparency' | 'logo';
+
+export type RoutingFeature = 'generation' | 'description' | 'tagging' | 'detection' | 'zero-shot' | 'logo';
+
+export type RoutingPolicy = 'priority' | 'lowest-cost' | 'fastest' | 'round-robin' | 'weighted-random';
+
+/**
+ * How providers are picked when the caller doesn't name one; provider keys are instance ids or types
+ */
+export interface RoutingConfig {
+  policy: RoutingPolicy;
+  features: Partial<Record<RoutingFeature, RoutingPolicy>>;
+  priorities: Partial<Record<RoutingFeature, string[]>>;
+  costs: Record<string, number>; // estimated USD per request
+  weights: Record<string, number>;
+  rules: RoutingRule[];
+}
+
+/**
+ * Narrows the candidates for matching requests to `provider` and picks among them with `policy`
+ */
+export interface RoutingRule {
+  name?: string | undefined;
+  features?: RoutingFeature[] | undefined;
+  when: {
+    transparent?: boolean | undefined;
+    style?: string[] | undefined;
+    format?: string[] | undefined;
+    quality?: 'standard' | 'hd' | undefined;
+    minCount?: number | undefined; // also limits candidates to providers that can return that many images
+  };
+  provider?: string[] | undefined;
+  policy?: RoutingPolicy | undefined;
+}
+
+/**
+ * Which policy (and rule) picked the provider of a result
+ */
+export interface RoutingDecision {
+  policy: RoutingPolicy | 'preferred' | 'fallback';
+  rule?: string | undefined;
+  candidates: string[];
+}
+
+/**
+ * Outcome of one provider in a compare_providers run
+ */
+export interface ProviderComparisonEntry {
+  provider: string;
+  type: string;
+  success: boolean;
+  durationMs: number;
+  result?: ImageGenerationResult | undefined;
+  code?: string | undefined;
+  error?: string | undefined;
+}
+
+/**
+ * Providers tried after the first choice fails; `chains` entries are instance ids or provider types
+ */
+export interface FallbackConfig {
+  enabled: boolean;
+  maxAttempts?: number | undefined; // providers tried per request, including the first
+  noFallbackCodes: string[];
+  chains: Partial<Record<RoutingFeature, string[]>>;
+}
+
+/**
+ * One provider tried for a request, in order
+ */
+export interface ProviderAttempt {
+  provider: string;
+  success: boolean;
+  code?: string | undefined;
+  message?: string | undefined;
+  durationMs: number;
+  retried: boolean; // the provider retried the call before this outcome
+}
+
+/**
+ * Background availability probing; request outcomes update the cached status in between
+ */
+export interface HealthConfig {
+  interval: number; // ms between background probes, 0 disables them
+  ttl: number; // ms a status is trusted before the next check re-probes
+  probeTimeout: number;
+  failureThreshold: number; // consecutive failed requests before a provider is marked down
+}
+
+export interface ProviderHealth {
+  status: 'up' | 'down' | 'unknown';
+  source: 'probe' | 'request';
+  checkedAt?: Date | undefined;
+  consecutiveFailures: number;
+  lastError?: string | undefined;
+}
+
+/**
+ * Per provider and feature breaker; `overrides` are keyed by instance id or provider type
+ */
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  failureThreshold: number; // consecutive failures that open the breaker
+  cooldown: number; // ms an open breaker rejects requests before a trial request
+  halfOpenRequests: number; // trial requests allowed at once while half-open
+  overrides: Record<string, { failureThreshold?: number | undefined; cooldown?: number | undefined }>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date | undefined;
+  retryAt?: Date | undefined; // when an open breaker lets a trial request through
+  lastError?: string | undefined;
 }
 
 export interface CacheConfig {
@@ -146,6 +420,31 @@ export interface CacheConfig {
   directory: string;
 }
 
+export interface OutputConfig {
+  directory: string;
+  format: string;
+  naming: string;
+  embedMetadata: boolean;
+  sidecar: boolean;
+  previewSize: number;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  tool: 'generate_image' | 'generate_logo';
+  prompt: string;
+  arguments: PromptTemplateArgument[];
+  params: Record<string, string | number | boolean>;
+}
+
+export interface PromptTemplateArgument {
+  name: string;
+  description?: string | undefined;
+  required: boolean;
+  default?: string | undefined;
+}
+
 export interface ProviderError extends Error {
   provider: string;
   code: string;
@@ -170,6 +469,36 @@ export interface LogoGenerationRequest extends Omit<ImageGenerationRequest, 'for
   secondaryColor?: string;
 }
 
+export interface LibraryEntry {
+  id: string;
+  requestId: string;
+  index: number;
+  prompt: string;
+  revisedPrompt?: string | undefined;
+  style: string;
+  provider: string;
+  model: string;
+  seed?: number | undefined;
+  format: string;
+  dimensions: ImageDimensions;
+  size: number;
+  filePath?: string | undefined;
+  tags: string[];
+  logoType?: LogoGenerationRequest['logoType'] | undefined;
+  createdAt: string;
+}
+
+export interface ImageSearchQuery {
+  text?: string | undefined;
+  style?: string | undefined;
+  provider?: string | undefined;
+  logoType?: LogoGenerationRequest['logoType'] | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
 // MCP Tool interfaces
 export interface McpImageGenerationArgs {
   prompt: string;
@@ -191,20 +520,44 @@ export interface McpImageDescriptionArgs {
   imageUrl: string;
 }
 
+export interface McpProviderComparisonArgs {
+  prompt: string;
+  providers?: string[];
+}
+
 export interface McpImageTaggingArgs {
   imageUrl: string;
 }
 
+export interface McpImageSearchArgs {
+  text?: string;
+  style?: string;
+  provider?: string;
+  logoType?: 'text' | 'icon' | 'combination';
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
 export interface McpToolResponse {
   success: boolean;
   data?: any;
   error?: string | undefined;
   cached?: boolean | undefined;
+  summary?: string | undefined;
+  images?: McpImageContent[] | undefined;
+}
+
+export interface McpImageContent {
+  type: 'image';
+  data: string;
+  mimeType: string;
 }
 
 // Installation script types
 export interface InstallationOptions {
-  providers: ('chatgpt' | 'huggingface')[];
+  providers: ('chatgpt' | 'huggingface' | 'stability')[];
   outputDirectory: string;
   enableCache: boolean;
   cacheSize: number;
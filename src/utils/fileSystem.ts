@@ -0,0 +1,109 @@
+/**
+ * File system helpers shared by the on-disk stores (cache, output, library)
+ */
+
+import path from 'path';
+import fs from 'fs-extra';
+
+/**
+ * Options for acquiring a lock file
+ */
+export interface FileLockOptions {
+  staleMs?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Run an operation while holding an exclusive lock file.
+ * The lock is created with O_EXCL so it also works across processes that share a directory;
+ * locks older than `staleMs` are assumed to belong to a crashed process and are taken over.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  operation: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const staleMs = options.staleMs ?? 10000;
+  const retryDelayMs = options.retryDelayMs ?? 25;
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const startedAt = Date.now();
+
+  await fs.ensureDir(path.dirname(lockPath));
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await fs.write(handle, `${process.pid}`);
+      await fs.close(handle);
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        throw error;
+      }
+
+      // Take over locks left behind by crashed processes
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > staleMs) {
+        await fs.remove(lockPath);
+        continue;
+      }
+
+      if (Date.now() - startedAt > timeoutMs) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+    }
+  }
+
+  try {
+    return await operation();
+  } finally {
+    await fs.remove(lockPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Write a file atomically (write to a temporary file, then rename over the target)
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+
+  await fs.ensureDir(path.dirname(filePath));
+
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.remove(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Read a JSON file, returning null when it is missing or unreadable
+ */
+export async function readJsonSafe<T>(filePath: string): Promise<T | null> {
+  try {
+    return await fs.readJson(filePath) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format file size for human readability
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unitIndex = 0;
+
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+
+  return `${size.toFixed(2)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,327 @@
+/**
+ * Helpers for returning generated images to MCP clients as image content blocks
+ */
+
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import mime from 'mime-types';
+import { formatFileSize } from './fileSystem.js';
+import configManager from '../config/config.js';
+import { getGeneratedImageUri } from '../resources/imageResources.js';
+import type { GeneratedImage, ImageGenerationResult, ImageTag, McpImageContent } from '../types/index.js';
+
+/**
+ * Options for the text summary of a generation result
+ */
+export interface ImageSummaryOptions {
+  title: string;
+  cached?: boolean | undefined;
+  details?: string[] | undefined;
+}
+
+/**
+ * Build image content blocks for generated images.
+ * Images larger than `maxDimension` (default: `output.previewSize`) on either edge are
+ * downscaled, keeping their format; 0 returns the original bytes. Images that cannot be loaded are skipped.
+ */
+export async function createImageContent(
+  images: GeneratedImage[],
+  maxDimension?: number | undefined
+): Promise<McpImageContent[]> {
+  const contents: McpImageContent[] = [];
+  const limit = maxDimension ?? configManager.getConfig()?.output.previewSize ?? 512;
+
+  for (const image of images) {
+    try {
+      let data = await loadImageData(image);
+      let format = image.format || 'png';
+
+      // Providers report the requested size, so check the actual pixels
+      const { width = 0, height = 0 } = limit > 0 ? await sharp(data).metadata() : {};
+
+      if (limit > 0 && (width > limit || height > limit)) {
+        const preview = await createPreview(data, format, limit);
+        data = preview.data;
+        format = preview.format;
+      }
+
+      contents.push({
+        type: 'image',
+        data: data.toString('base64'),
+        mimeType: mime.lookup(format) || 'image/png',
+      });
+    } catch (error) {
+      console.warn('Failed to load generated image for response:', error);
+    }
+  }
+
+  return contents;
+}
+
+// Box colors for annotated previews, cycled per tag
+const BOX_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#bfef45'];
+
+/**
+ * Draw the bounding boxes of detected objects onto a PNG preview of the image.
+ * The preview fits `maxDimension` (default: `output.previewSize`); 0 keeps the original size.
+ */
+export async function createAnnotatedImageContent(
+  data: Buffer,
+  tags: ImageTag[],
+  maxDimension?: number | undefined
+): Promise<McpImageContent> {
+  const limit = maxDimension ?? configManager.getConfig()?.output.previewSize ?? 512;
+  const base = limit > 0
+    ? await sharp(data).resize(limit, limit, { fit: 'inside', withoutEnlargement: true }).png().toBuffer()
+    : await sharp(data).png().toBuffer();
+  const { width = 0, height = 0 } = await sharp(base).metadata();
+
+  const fontSize = Math.max(10, Math.round(Math.min(width, height) / 40));
+  const stroke = Math.max(2, Math.round(fontSize / 6));
+  const shapes = tags
+    .filter(tag => tag.boundingBox)
+    .map((tag, index) => {
+      const box = tag.boundingBox!;
+      const color = BOX_COLORS[index % BOX_COLORS.length];
+      const x = Math.round(box.x * width);
+      const y = Math.round(box.y * height);
+      const text = `${tag.label} ${Math.round(tag.confidence * 100)}%`;
+      const labelWidth = Math.round(text.length * fontSize * 0.6) + 8;
+      const labelY = y >= fontSize + 6 ? y - fontSize - 6 : y;
+
+      return [
+        `<rect x="${x}" y="${y}" width="${Math.round(box.width * width)}" height="${Math.round(box.height * height)}" fill="none" stroke="${color}" stroke-width="${stroke}"/>`,
+        `<rect x="${x}" y="${labelY}" width="${labelWidth}" height="${fontSize + 6}" fill="${color}"/>`,
+        `<text x="${x + 4}" y="${labelY + fontSize}" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escapeXml(text)}</text>`,
+      ].join('');
+    });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+  const annotated = await sharp(base)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+
+  return {
+    type: 'image',
+    data: annotated.toString('base64'),
+    mimeType: 'image/png',
+  };
+}
+
+/**
+ * One tile of a contact sheet: an image, or the error shown in its place
+ */
+export interface ContactSheetCell {
+  label: string;
+  caption: string;
+  image?: GeneratedImage | undefined;
+  error?: string | undefined;
+}
+
+// Contact sheet layout in pixels
+const SHEET_COLUMNS = 4;
+const SHEET_GAP = 8;
+const SHEET_CAPTION_HEIGHT = 44;
+
+/**
+ * Lay out labelled tiles side by side (up to four per row) as one PNG; images are fitted into
+ * `cellSize` squares, and tiles whose image is missing or cannot be loaded show their error
+ */
+export async function createContactSheet(cells: ContactSheetCell[], cellSize: number = 256): Promise<McpImageContent> {
+  const columns = Math.max(1, Math.min(cells.length, SHEET_COLUMNS));
+  const rows = Math.max(1, Math.ceil(cells.length / columns));
+  const width = SHEET_GAP + columns * (cellSize + SHEET_GAP);
+  const height = SHEET_GAP + rows * (cellSize + SHEET_CAPTION_HEIGHT + SHEET_GAP);
+
+  const composites: sharp.OverlayOptions[] = [];
+  const overlay: string[] = [];
+
+  for (const [index, cell] of cells.entries()) {
+    const left = SHEET_GAP + (index % columns) * (cellSize + SHEET_GAP);
+    const top = SHEET_GAP + Math.floor(index / columns) * (cellSize + SHEET_CAPTION_HEIGHT + SHEET_GAP);
+    let error = cell.error;
+
+    if (cell.image && !error) {
+      try {
+        const tile = await sharp(await loadImageData(cell.image))
+          .resize(cellSize, cellSize, { fit: 'contain', background: '#f0f0f0' })
+          .flatten({ background: '#f0f0f0' })
+          .png()
+          .toBuffer();
+        composites.push({ input: tile, top, left });
+      } catch (loadError: any) {
+        error = `Image could not be loaded: ${loadError.message || loadError}`;
+      }
+    } else if (!error) {
+      error = 'No image';
+    }
+
+    if (error) {
+      overlay.push(`<rect x="${left}" y="${top}" width="${cellSize}" height="${cellSize}" fill="#f8e0e0"/>`);
+      const lineLength = Math.max(10, Math.floor(cellSize / 7));
+      wrapText(error, lineLength).slice(0, Math.floor((cellSize - 16) / 16)).forEach((line, lineIndex) => {
+        overlay.push(
+          `<text x="${left + 8}" y="${top + 20 + lineIndex * 16}" font-family="sans-serif" font-size="12" fill="#a00000">${escapeXml(line)}</text>`
+        );
+      });
+    }
+
+    overlay.push(
+      `<text x="${left + 4}" y="${top + cellSize + 18}" font-family="sans-serif" font-size="14" font-weight="bold" fill="#202020">${escapeXml(truncateText(cell.label, Math.floor((cellSize - 8) / 9)))}</text>`,
+      `<text x="${left + 4}" y="${top + cellSize + 36}" font-family="sans-serif" font-size="12" fill="#606060">${escapeXml(truncateText(cell.caption, Math.floor((cellSize - 8) / 7)))}</text>`
+    );
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${overlay.join('')}</svg>`;
+  const sheet = await sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+    .composite([...composites, { input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+
+  return {
+    type: 'image',
+    data: sheet.toString('base64'),
+    mimeType: 'image/png',
+  };
+}
+
+/**
+ * Build a compact, human readable summary of a generation result
+ */
+export function formatImageSummary(result: ImageGenerationResult, options: ImageSummaryOptions): string {
+  const first = result.images[0];
+  const lines = [
+    `${options.title}: ${result.images.length} image${result.images.length === 1 ? '' : 's'}${options.cached ? ' (cached)' : ''}`,
+    `Provider: ${result.provider}${first?.metadata.model ? ` (${first.metadata.model})` : ''}`,
+    `Request: ${result.requestId}`,
+  ];
+
+  if (result.routing) {
+    lines.splice(2, 0, `Routing: ${result.routing.policy}${result.routing.rule ? ` (${result.routing.rule})` : ''}`);
+  }
+
+  if (first?.metadata.revisedPrompt) {
+    lines.push(`Revised prompt: ${first.metadata.revisedPrompt}`);
+  }
+
+  result.images.forEach((image, index) => {
+    lines.push('');
+    lines.push(`Image ${index + 1}: ${image.dimensions.width}x${image.dimensions.height} ${image.format}, ${formatFileSize(image.size)}`);
+    if (image.localPath) {
+      lines.push(`  File: ${image.localPath}`);
+      lines.push(`  Resource: ${getGeneratedImageUri(result.requestId, index)}`);
+    } else if (image.url && !image.url.startsWith('data:')) {
+      lines.push(`  URL: ${image.url}`);
+    }
+  });
+
+  if (options.details && options.details.length > 0) {
+    lines.push('');
+    lines.push(...options.details);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Load image bytes, preferring the saved file (it carries embedded metadata)
+ */
+async function loadImageData(image: GeneratedImage): Promise<Buffer> {
+  if (image.localPath && (await fs.pathExists(image.localPath))) {
+    return fs.readFile(image.localPath);
+  }
+
+  if (image.base64) {
+    return Buffer.from(image.base64, 'base64');
+  }
+
+  const response = await fetch(image.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.statusText}`);
+  }
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Whether an image actually has transparent pixels (an alpha channel that isn't fully opaque)
+ */
+export async function hasTransparency(image: GeneratedImage): Promise<boolean> {
+  try {
+    const data = await loadImageData(image);
+    const metadata = await sharp(data).metadata();
+    if (!metadata.hasAlpha) {
+      return false;
+    }
+    const stats = await sharp(data).stats();
+    return !stats.isOpaque;
+  } catch (error) {
+    console.warn('Failed to inspect image transparency:', error);
+    return false;
+  }
+}
+
+/**
+ * Escape text for use inside SVG markup
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Break text into lines of at most `lineLength` characters, splitting long words
+ */
+function wrapText(text: string, lineLength: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (let start = 0; start < word.length; start += lineLength) {
+      const part = word.slice(start, start + lineLength);
+      if (line && line.length + 1 + part.length > lineLength) {
+        lines.push(line);
+        line = part;
+      } else {
+        line = line ? `${line} ${part}` : part;
+      }
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Shorten text to at most `maxLength` characters, ending in an ellipsis when cut
+ */
+function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, Math.max(1, maxLength - 1))}…` : text;
+}
+
+/**
+ * Downscale an image to fit inside a square bounding box
+ */
+async function createPreview(
+  data: Buffer,
+  format: string,
+  maxDimension: number
+): Promise<{ data: Buffer; format: string }> {
+  const pipeline = sharp(data).resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true });
+
+  switch (format) {
+    case 'jpeg':
+    case 'jpg':
+      return { data: await pipeline.jpeg({ quality: 85 }).toBuffer(), format: 'jpeg' };
+    case 'webp':
+      return { data: await pipeline.webp({ quality: 85 }).toBuffer(), format: 'webp' };
+    default:
+      return { data: await pipeline.png().toBuffer(), format: 'png' };
+  }
+}